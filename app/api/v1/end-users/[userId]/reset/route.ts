@@ -0,0 +1,37 @@
+// app/api/v1/end-users/[userId]/reset/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { withApiKey } from "@/lib/api-auth";
+import {
+  resetEndUserReputation,
+  toEndUserResponse,
+} from "@/lib/end-user-reputation";
+
+type RouteContext = { params: Promise<{ userId: string }> };
+
+/**
+ * Clear an end user's score and offense counts (e.g. after an appeal).
+ */
+export async function POST(req: NextRequest, { params }: RouteContext) {
+  return withApiKey(req, async (apiKey) => {
+    try {
+      const { userId } = await params;
+      const reputation = await resetEndUserReputation(apiKey.orgId, userId);
+      if (!reputation) {
+        return NextResponse.json(
+          { error: "No reputation recorded for this end user." },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json(toEndUserResponse(reputation));
+    } catch (err) {
+      console.error("End user reset API error:", err);
+      return NextResponse.json(
+        { error: "Internal server error." },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -0,0 +1,37 @@
+// app/api/v1/end-users/[userId]/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { withApiKey } from "@/lib/api-auth";
+import {
+  getEndUserReputation,
+  toEndUserResponse,
+} from "@/lib/end-user-reputation";
+
+type RouteContext = { params: Promise<{ userId: string }> };
+
+/**
+ * Inspect one end user's reputation (`userId` is the `context.user_id`).
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  return withApiKey(req, async (apiKey) => {
+    try {
+      const { userId } = await params;
+      const reputation = await getEndUserReputation(apiKey.orgId, userId);
+      if (!reputation) {
+        return NextResponse.json(
+          { error: "No reputation recorded for this end user." },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json(toEndUserResponse(reputation));
+    } catch (err) {
+      console.error("End user API error:", err);
+      return NextResponse.json(
+        { error: "Internal server error." },
+        { status: 500 }
+      );
+    }
+  });
+}
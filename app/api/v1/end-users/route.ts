@@ -0,0 +1,76 @@
+// app/api/v1/end-users/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { withApiKey } from "@/lib/api-auth";
+import {
+  listEndUserReputations,
+  MAX_REPUTATION_PAGE_SIZE,
+  toEndUserResponse,
+} from "@/lib/end-user-reputation";
+import { ESCALATION_TIERS } from "@/lib/moderation/policy";
+import type { RiskTier } from "@/lib/moderation/types";
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * List the organization's end users by reputation, highest score first.
+ * Query: `tier` (elevated | high: that tier or above), `limit`, `offset`.
+ */
+export async function GET(req: NextRequest) {
+  return withApiKey(req, async (apiKey) => {
+    try {
+      const params = req.nextUrl.searchParams;
+
+      const tier = params.get("tier") ?? undefined;
+      if (
+        tier !== undefined &&
+        !ESCALATION_TIERS.includes(tier as Exclude<RiskTier, "low">)
+      ) {
+        return NextResponse.json(
+          { error: '"tier" must be "elevated" or "high".' },
+          { status: 400 }
+        );
+      }
+
+      const limit = parseInt(
+        params.get("limit") || String(DEFAULT_PAGE_SIZE),
+        10
+      );
+      const offset = parseInt(params.get("offset") || "0", 10);
+      if (
+        isNaN(limit) ||
+        limit < 1 ||
+        limit > MAX_REPUTATION_PAGE_SIZE ||
+        isNaN(offset) ||
+        offset < 0
+      ) {
+        return NextResponse.json(
+          {
+            error: `"limit" must be between 1 and ${MAX_REPUTATION_PAGE_SIZE} and "offset" must be 0 or more.`,
+          },
+          { status: 400 }
+        );
+      }
+
+      const { users, total } = await listEndUserReputations(apiKey.orgId, {
+        tier: tier as Exclude<RiskTier, "low"> | undefined,
+        limit,
+        offset,
+      });
+
+      return NextResponse.json({
+        end_users: users.map(toEndUserResponse),
+        total,
+        limit,
+        offset,
+      });
+    } catch (err) {
+      console.error("End users API error:", err);
+      return NextResponse.json(
+        { error: "Internal server error." },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -0,0 +1,32 @@
+// app/api/v1/jobs/[id]/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { withApiKey } from "@/lib/api-auth";
+import { getModerationJob, toJobStatusResponse } from "@/lib/moderation-jobs";
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Poll an async moderation job: its status, and the moderation result (or
+ * error) once it has finished.
+ */
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  return withApiKey(req, async (apiKey) => {
+    try {
+      const { id } = await params;
+      const job = await getModerationJob(apiKey.orgId, id);
+      if (!job) {
+        return NextResponse.json({ error: "Job not found." }, { status: 404 });
+      }
+
+      return NextResponse.json(toJobStatusResponse(job));
+    } catch (err) {
+      console.error("Jobs API error:", err);
+      return NextResponse.json(
+        { error: "Internal server error." },
+        { status: 500 }
+      );
+    }
+  });
+}
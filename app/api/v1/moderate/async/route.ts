@@ -0,0 +1,93 @@
+// app/api/v1/moderate/async/route.ts
+
+import { NextRequest, NextResponse } from "next/server";
+
+import { withApiKey } from "@/lib/api-auth";
+import { validateCallbackUrl } from "@/lib/callbacks";
+import { withIdempotency } from "@/lib/idempotency";
+import {
+  enqueueModerationJob,
+  toJobStatusResponse,
+} from "@/lib/moderation-jobs";
+import {
+  loadModerationSettings,
+  ModerationRequestError,
+  parseModerationInput,
+  prepareModeration,
+} from "@/lib/moderation-service";
+
+/**
+ * Queue a text for moderation and return the job right away (202). Poll
+ * GET /api/v1/jobs/:id, or pass `callback_url` to be notified when the job
+ * finishes. Quota is charged when the job runs.
+ */
+export async function POST(req: NextRequest) {
+  // 1) Auth with API key, then the per-key and per-org rate limits
+  return withApiKey(req, async (apiKey) => {
+    try {
+      const org = apiKey.organization;
+
+      // 2) Parse body
+      let body: unknown;
+      try {
+        body = await req.json();
+      } catch {
+        return NextResponse.json(
+          { error: "Invalid JSON body." },
+          { status: 400 }
+        );
+      }
+
+      // A repeated Idempotency-Key replays the stored response instead
+      return withIdempotency(req, org.id, body, async () => {
+        // 3) Validate the request now, so a bad one is rejected here rather
+        // than failing in the queue
+        const { callback_url: callbackUrl = null, ...input } = (
+          body && typeof body === "object" ? body : {}
+        ) as Record<string, unknown>;
+
+        const urlError =
+          callbackUrl === null
+            ? null
+            : typeof callbackUrl === "string"
+            ? await validateCallbackUrl(callbackUrl)
+            : "must be an https URL";
+        if (urlError) {
+          return NextResponse.json(
+            { error: `"callback_url" ${urlError}.` },
+            { status: 400 }
+          );
+        }
+
+        const settings = await loadModerationSettings(org, apiKey.id);
+        prepareModeration(settings, parseModerationInput(input));
+
+        // 4) Queue the job
+        const job = await enqueueModerationJob(
+          apiKey,
+          input,
+          typeof callbackUrl === "string" ? callbackUrl : null
+        );
+
+        // 5) Response to client: the job to poll
+        return NextResponse.json(toJobStatusResponse(job), {
+          status: 202,
+          headers: { Location: `/api/v1/jobs/${job.id}` },
+        });
+      });
+    } catch (err) {
+      if (err instanceof ModerationRequestError) {
+        return NextResponse.json(
+          { error: err.message, ...err.details },
+          { status: err.status }
+        );
+      }
+
+      console.error("Async moderation API error:", err);
+      return NextResponse.json(
+        { error: "Internal server error." },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -0,0 +1,234 @@
+// app/api/v1/moderate/batch/route.ts
+
+import { after, NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/db";
+import { withApiKey } from "@/lib/api-auth";
+import { withIdempotency } from "@/lib/idempotency";
+import {
+  loadModerationSettings,
+  ModerationRequestError,
+  parseModerationInput,
+  prepareModeration,
+  recordEndUserOutcomes,
+  runModeration,
+  toModerationLogData,
+  toModerationResponse,
+  type ModerationOutcome,
+  type PreparedModeration,
+} from "@/lib/moderation-service";
+import { mapWithConcurrency } from "@/lib/moderation/concurrency";
+import { runShadowModeration } from "@/lib/shadow-mode";
+import {
+  overageFlags,
+  QuotaExceededError,
+  releaseQuota,
+  reserveQuota,
+  settleQuota,
+} from "@/lib/usage";
+
+const MAX_BATCH_ITEMS = 100;
+const MAX_CLIENT_ID_LENGTH = 128;
+// Items moderated in parallel; each may fan out further into chunks
+const BATCH_CONCURRENCY = 5;
+
+type ItemError = { status: number; error: string } & Record<string, unknown>;
+
+type BatchItem = {
+  clientId: string | null;
+  prepared?: PreparedModeration;
+  outcome?: ModerationOutcome;
+  error?: ItemError;
+};
+
+function toItemError(err: unknown): ItemError {
+  if (err instanceof ModerationRequestError) {
+    return { status: err.status, error: err.message, ...err.details };
+  }
+  throw err;
+}
+
+function parseClientId(value: unknown): string | null {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "string" || value.length > MAX_CLIENT_ID_LENGTH) {
+    throw new ModerationRequestError(
+      `"id" must be a string of ${MAX_CLIENT_ID_LENGTH} characters or less.`,
+      400
+    );
+  }
+  return value;
+}
+
+/**
+ * Moderate up to MAX_BATCH_ITEMS texts in one request. Results come back in
+ * request order; invalid items and provider failures are reported per item
+ * and are not charged.
+ */
+export async function POST(req: NextRequest) {
+  // 1) Auth with API key, then the per-key and per-org rate limits
+  return withApiKey(req, async (apiKey) => {
+    try {
+      const org = apiKey.organization;
+
+      // 2) Parse body
+      let body: unknown;
+      try {
+        body = await req.json();
+      } catch {
+        return NextResponse.json(
+          { error: "Invalid JSON body." },
+          { status: 400 }
+        );
+      }
+
+      // A repeated Idempotency-Key replays the stored response instead
+      return withIdempotency(req, org.id, body, async () => {
+        const rawItems = (body as { items?: unknown } | null)?.items;
+        if (
+          !Array.isArray(rawItems) ||
+          rawItems.length === 0 ||
+          rawItems.length > MAX_BATCH_ITEMS
+        ) {
+          return NextResponse.json(
+            {
+              error: `"items" must be an array of 1 to ${MAX_BATCH_ITEMS} items.`,
+            },
+            { status: 400 }
+          );
+        }
+
+        // 3) Validate every item and resolve its model
+        const settings = await loadModerationSettings(org, apiKey.id);
+
+        const items: BatchItem[] = rawItems.map((raw) => {
+          const rawId = (raw as { id?: unknown } | null)?.id;
+          const clientId = typeof rawId === "string" ? rawId : null;
+          try {
+            return {
+              clientId: parseClientId(rawId),
+              prepared: prepareModeration(settings, parseModerationInput(raw)),
+            };
+          } catch (err) {
+            return { clientId, error: toItemError(err) };
+          }
+        });
+
+        // 4) Quota: every valid item costs one unit, and the batch runs only if
+        // all of them can be reserved this month
+        const now = new Date();
+        const requested = items.filter((item) => item.prepared).length;
+        const reservation = await reserveQuota(org.id, requested, now);
+
+        let succeeded: (BatchItem & { outcome: ModerationOutcome })[];
+        let logs: { id: string; createdAt: Date; overage: boolean }[];
+        try {
+          // 5) Call moderation core for each valid item
+          await mapWithConcurrency(items, BATCH_CONCURRENCY, async (item) => {
+            if (!item.prepared) return;
+            try {
+              item.outcome = await runModeration(settings, item.prepared);
+            } catch (err) {
+              item.error = toItemError(err);
+            }
+          });
+
+          succeeded = items.filter(
+            (item): item is BatchItem & { outcome: ModerationOutcome } =>
+              item.outcome !== undefined
+          );
+
+          // 6) Update lastUsedAt on API key
+          await prisma.apiKey.update({
+            where: { id: apiKey.id },
+            data: { lastUsedAt: now },
+          });
+
+          // 7) Log to DB in one statement (rows come back in insertion order)
+          // and settle the reservation in the same transaction: the items
+          // actually moderated are charged (cache hits only when the plan
+          // counts them), the rest of the reservation is given back
+          const charges = succeeded.map(
+            (item) => !item.outcome.cached || reservation.countCachedHits
+          );
+          const overage = overageFlags(reservation, charges);
+          const charged = charges.filter(Boolean).length;
+          logs = await prisma.$transaction(async (tx) => {
+            const created = succeeded.length
+              ? await tx.moderationLog.createManyAndReturn({
+                  data: succeeded.map((item, i) => ({
+                    ...toModerationLogData(settings, apiKey.id, item.outcome),
+                    overage: overage[i],
+                  })),
+                  select: { id: true, createdAt: true, overage: true },
+                })
+              : [];
+            await settleQuota(reservation, charged, tx);
+            return created;
+          });
+        } catch (err) {
+          // Nothing was logged or charged: give the units back
+          await releaseQuota(reservation);
+          throw err;
+        }
+
+        // 8) Update the end users' reputations
+        await recordEndUserOutcomes(
+          settings,
+          succeeded.map((item) => item.outcome)
+        );
+
+        // 9) Run the org's shadow candidate once the response has been sent
+        if (org.shadowModel && succeeded.length) {
+          after(() =>
+            runShadowModeration(
+              settings,
+              succeeded.map((item, i) => ({
+                outcome: item.outcome,
+                logId: logs[i].id,
+              }))
+            )
+          );
+        }
+
+        // 10) Response to client, in request order (logs follow `succeeded`)
+        let logIndex = 0;
+        return NextResponse.json(
+          {
+            results: items.map((item) =>
+              item.outcome
+                ? {
+                    id: item.clientId,
+                    status: 200,
+                    result: toModerationResponse(
+                      settings,
+                      item.outcome,
+                      logs[logIndex++]
+                    ),
+                  }
+                : { id: item.clientId, ...item.error }
+            ),
+            summary: {
+              total: items.length,
+              succeeded: succeeded.length,
+              failed: items.length - succeeded.length,
+            },
+          },
+          { status: 200 }
+        );
+      });
+    } catch (err) {
+      if (err instanceof QuotaExceededError) {
+        return NextResponse.json(
+          { error: err.message, ...err.details },
+          { status: 429 }
+        );
+      }
+
+      console.error("Batch moderation API error:", err);
+      return NextResponse.json(
+        { error: "Internal server error." },
+        { status: 500 }
+      );
+    }
+  });
+}
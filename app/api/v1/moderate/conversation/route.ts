@@ -0,0 +1,308 @@
+// app/api/v1/moderate/conversation/route.ts
+
+import { after, NextRequest, NextResponse } from "next/server";
+
+import { prisma } from "@/lib/db";
+import { withApiKey } from "@/lib/api-auth";
+import { withIdempotency } from "@/lib/idempotency";
+import {
+  loadModerationSettings,
+  findLoggedOutcomes,
+  ModerationRequestError,
+  parseModerationInput,
+  prepareModeration,
+  recordEndUserOutcomes,
+  runModeration,
+  runThreadContextModeration,
+  toModerationLogData,
+  toModerationResponse,
+  type ModerationInput,
+  type LoggedOutcome,
+  type ModerationOutcome,
+} from "@/lib/moderation-service";
+import { mapWithConcurrency } from "@/lib/moderation/concurrency";
+import {
+  threadVerdict,
+  type ConversationTurn,
+} from "@/lib/moderation/conversation";
+import { runShadowModeration } from "@/lib/shadow-mode";
+import {
+  overageFlags,
+  QuotaExceededError,
+  releaseQuota,
+  reserveQuota,
+  settleQuota,
+} from "@/lib/usage";
+
+const MAX_CONVERSATION_MESSAGES = 50;
+const MAX_AUTHOR_ID_LENGTH = 256;
+// Messages moderated in parallel; each may fan out further into chunks
+const CONVERSATION_CONCURRENCY = 5;
+
+/**
+ * Validate the messages and the request-level `model`, `redact` and
+ * `context` (source and metadata; the end user of each message is its
+ * `author_id`).
+ */
+function parseConversation(body: unknown): {
+  turns: ConversationTurn[];
+  inputs: ModerationInput[];
+} {
+  const request = (body && typeof body === "object" ? body : {}) as Record<
+    string,
+    unknown
+  >;
+
+  const messages = request.messages;
+  if (
+    !Array.isArray(messages) ||
+    messages.length === 0 ||
+    messages.length > MAX_CONVERSATION_MESSAGES
+  ) {
+    throw new ModerationRequestError(
+      `"messages" must be an array of 1 to ${MAX_CONVERSATION_MESSAGES} messages, oldest first.`,
+      400
+    );
+  }
+
+  const context = request.context ?? {};
+  if (typeof context !== "object" || Array.isArray(context)) {
+    throw new ModerationRequestError('"context" must be an object.', 400);
+  }
+  if ("user_id" in context) {
+    throw new ModerationRequestError(
+      'Identify end users with "messages[].author_id" instead of "context.user_id".',
+      400
+    );
+  }
+
+  const turns: ConversationTurn[] = [];
+  const inputs = messages.map((raw, index) => {
+    const message = (raw && typeof raw === "object" ? raw : {}) as Record<
+      string,
+      unknown
+    >;
+
+    const authorId = message.author_id;
+    if (
+      typeof authorId !== "string" ||
+      authorId.length === 0 ||
+      authorId.length > MAX_AUTHOR_ID_LENGTH
+    ) {
+      throw new ModerationRequestError(
+        `"messages[${index}].author_id" must be a non-empty string of up to ${MAX_AUTHOR_ID_LENGTH} characters.`,
+        400
+      );
+    }
+
+    try {
+      const input = parseModerationInput({
+        text: message.text,
+        model: request.model,
+        redact: request.redact,
+        context: { ...context, user_id: authorId },
+      });
+      turns.push({ authorId, text: input.text });
+      return input;
+    } catch (err) {
+      if (err instanceof ModerationRequestError) {
+        throw new ModerationRequestError(
+          `messages[${index}]: ${err.message}`,
+          err.status,
+          err.details
+        );
+      }
+      throw err;
+    }
+  });
+
+  return { turns, inputs };
+}
+
+/**
+ * Moderate a thread: every message on its own, and the final message again
+ * with the earlier turns as context. Earlier messages already moderated for
+ * the same author reuse their logged verdict; each new message costs one
+ * unit of quota, like a batch item (cache hits only when the plan counts
+ * them), and the in-context pass is free.
+ */
+export async function POST(req: NextRequest) {
+  // 1) Auth with API key, then the per-key and per-org rate limits
+  return withApiKey(req, async (apiKey) => {
+    try {
+      const org = apiKey.organization;
+
+      // 2) Parse body
+      let body: unknown;
+      try {
+        body = await req.json();
+      } catch {
+        return NextResponse.json(
+          { error: "Invalid JSON body." },
+          { status: 400 }
+        );
+      }
+
+      // A repeated Idempotency-Key replays the stored response instead
+      return withIdempotency(req, org.id, body, async () => {
+        // 3) Validate every message and resolve its model
+        const { turns, inputs } = parseConversation(body);
+        const settings = await loadModerationSettings(org, apiKey.id);
+        const prepared = inputs.map((input, index) => {
+          try {
+            return prepareModeration(settings, input);
+          } catch (err) {
+            if (err instanceof ModerationRequestError) {
+              throw new ModerationRequestError(
+                `messages[${index}]: ${err.message}`,
+                err.status,
+                err.details
+              );
+            }
+            throw err;
+          }
+        });
+
+        // 4) Earlier messages the org already had moderated (clients resend
+        // the thread with every new message) keep their logged verdict and
+        // are neither charged nor logged again
+        const finalIndex = prepared.length - 1;
+        const previous = [
+          ...(await findLoggedOutcomes(
+            settings,
+            prepared.slice(0, finalIndex)
+          )),
+          null,
+        ];
+        const fresh = prepared
+          .map((_, index) => index)
+          .filter((index) => previous[index] === null);
+
+        // 5) Quota: the new messages must be reserved from this month's quota
+        const now = new Date();
+        const reservation = await reserveQuota(org.id, fresh.length, now);
+
+        // Filled in by index: reused verdicts now, new ones once logged
+        const outcomes: ModerationOutcome[] = [];
+        const logs: LoggedOutcome["log"][] = [];
+        previous.forEach((logged, index) => {
+          if (!logged) return;
+          outcomes[index] = logged.outcome;
+          logs[index] = logged.log;
+        });
+        let charged: number;
+        try {
+          // 6) Call moderation core for each new message, then for the final
+          // message in context
+          const moderated = await mapWithConcurrency(
+            fresh,
+            CONVERSATION_CONCURRENCY,
+            (index: number) => runModeration(settings, prepared[index])
+          );
+          fresh.forEach((index, i) => (outcomes[index] = moderated[i]));
+          outcomes[finalIndex] = await runThreadContextModeration(
+            settings,
+            outcomes[finalIndex],
+            turns
+          );
+
+          // 7) Update lastUsedAt on API key
+          await prisma.apiKey.update({
+            where: { id: apiKey.id },
+            data: { lastUsedAt: now },
+          });
+
+          // 8) Log the new messages in one statement (rows come back in
+          // insertion order) and settle the reservation in the same
+          // transaction: one unit per message, cache hits only when the plan
+          // counts them
+          const charges = fresh.map(
+            (index) => !outcomes[index].cached || reservation.countCachedHits
+          );
+          const overage = overageFlags(reservation, charges);
+          const data = fresh.map((index, i) => ({
+            ...toModerationLogData(settings, apiKey.id, outcomes[index]),
+            overage: overage[i],
+          }));
+          charged = charges.filter(Boolean).length;
+          const created = await prisma.$transaction(async (tx) => {
+            const rows = await tx.moderationLog.createManyAndReturn({
+              data,
+              select: { id: true, createdAt: true, overage: true },
+            });
+            await settleQuota(reservation, charged, tx);
+            return rows;
+          });
+          fresh.forEach((index, i) => (logs[index] = created[i]));
+        } catch (err) {
+          // Nothing was logged or charged: give the units back
+          await releaseQuota(reservation);
+          throw err;
+        }
+
+        // 9) Update the final message's author's reputation. The earlier
+        // messages were counted when they were the final one
+        await recordEndUserOutcomes(settings, [outcomes[finalIndex]]);
+
+        // 10) Run the org's shadow candidate on the new earlier messages once
+        // the response has been sent. The final message is left out: its
+        // verdict includes the thread context, which the candidate does not
+        // see.
+        const shadowed = fresh.filter((index) => index !== finalIndex);
+        if (org.shadowModel && shadowed.length > 0) {
+          after(() =>
+            runShadowModeration(
+              settings,
+              shadowed.map((index) => ({
+                outcome: outcomes[index],
+                logId: logs[index].id,
+              }))
+            )
+          );
+        }
+
+        // 11) Response to client, messages in request order
+        const verdict = threadVerdict(
+          outcomes.map((outcome) => outcome.result)
+        );
+        return NextResponse.json(
+          {
+            thread: {
+              ...verdict,
+              context: outcomes[finalIndex].result.thread_context ?? null,
+            },
+            messages: outcomes.map((outcome, index) => ({
+              index,
+              author_id: turns[index].authorId,
+              ...toModerationResponse(settings, outcome, logs[index]),
+              reused: previous[index] !== null,
+            })),
+            units: charged,
+            overage_units: fresh.filter((index) => logs[index].overage).length,
+          },
+          { status: 200 }
+        );
+      });
+    } catch (err) {
+      if (err instanceof QuotaExceededError) {
+        return NextResponse.json(
+          { error: err.message, ...err.details },
+          { status: 429 }
+        );
+      }
+
+      if (err instanceof ModerationRequestError) {
+        return NextResponse.json(
+          { error: err.message, ...err.details },
+          { status: err.status }
+        );
+      }
+
+      console.error("Conversation moderation API error:", err);
+      return NextResponse.json(
+        { error: "Internal server error." },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -1,239 +1,127 @@
 // app/api/v1/moderate/route.ts
 
-import { NextRequest, NextResponse } from "next/server";
-import crypto from "crypto";
+import { after, NextRequest, NextResponse } from "next/server";
 
-import { Prisma } from "@prisma/client";
 import { prisma } from "@/lib/db";
+import { withApiKey } from "@/lib/api-auth";
+import { withIdempotency } from "@/lib/idempotency";
 import {
-  moderateWithUnitary,
-  AuthenticationError,
-} from "@/lib/moderation/unitaryProvider";
-import { hashApiKey } from "@/lib/api-keys";
-import { buildInputPreview } from "@/lib/moderation/inputPreview";
-
-const HASH_ALGO = "sha256";
-const DEFAULT_FREE_QUOTA = 5_000;
-
-function getApiKeyFromRequest(req: NextRequest): string | null {
-  const authHeader = req.headers.get("authorization");
-  if (authHeader?.startsWith("Bearer ")) {
-    return authHeader.slice("Bearer ".length).trim();
-  }
-
-  const apiKeyHeader = req.headers.get("x-api-key");
-  if (apiKeyHeader && apiKeyHeader.trim().length > 0) {
-    return apiKeyHeader.trim();
-  }
-
-  return null;
-}
-
-function hashInput(text: string): string {
-  return crypto.createHash(HASH_ALGO).update(text).digest("hex");
-}
-
-/**
- * Get the current month [start, end) range for usage aggregation.
- */
-function getCurrentMonthRange(now = new Date()) {
-  const start = new Date(now.getFullYear(), now.getMonth(), 1);
-  const end = new Date(now.getFullYear(), now.getMonth() + 1, 1);
-  return { start, end };
-}
+  loadModerationSettings,
+  ModerationRequestError,
+  parseModerationInput,
+  prepareModeration,
+  recordEndUserOutcomes,
+  runModeration,
+  toModerationLogData,
+  toModerationResponse,
+  type ModerationOutcome,
+} from "@/lib/moderation-service";
+import { runShadowModeration } from "@/lib/shadow-mode";
+import {
+  overageFlags,
+  QuotaExceededError,
+  releaseQuota,
+  reserveQuota,
+  settleQuota,
+} from "@/lib/usage";
 
 export async function POST(req: NextRequest) {
-  try {
-    // 1) Auth with API key
-    const apiKeyRaw = getApiKeyFromRequest(req);
-    if (!apiKeyRaw) {
-      return NextResponse.json(
-        {
-          error:
-            "Missing API key. Use Authorization: Bearer <KEY> or x-api-key.",
-        },
-        { status: 401 }
-      );
-    }
-
-    const apiKeyHash = hashApiKey(apiKeyRaw);
-
-    const apiKey = await prisma.apiKey.findFirst({
-      where: {
-        keyHash: apiKeyHash,
-        isActive: true,
-      },
-      include: {
-        organization: true,
-      },
-    });
-
-    if (!apiKey || !apiKey.organization) {
-      return NextResponse.json(
-        { error: "Invalid or inactive API key." },
-        { status: 401 }
-      );
-    }
-
-    const org = apiKey.organization;
-
-    // 2) Parse body
-    let body: any;
+  // 1) Auth with API key, then the per-key and per-org rate limits
+  return withApiKey(req, async (apiKey) => {
     try {
-      body = await req.json();
-    } catch {
-      return NextResponse.json(
-        { error: "Invalid JSON body." },
-        { status: 400 }
-      );
-    }
-
-    const text = body?.text;
-    const modelKey = (body?.model as string) || "english-basic";
+      const org = apiKey.organization;
 
-    if (typeof text !== "string" || text.trim().length === 0) {
-      return NextResponse.json(
-        { error: 'Missing or invalid "text" field in request body.' },
-        { status: 400 }
-      );
-    }
-
-    // 3) Fetch active subscription & plan
-    const activeSub = await prisma.subscription.findFirst({
-      where: {
-        orgId: org.id,
-        status: "active",
-      },
-      include: {
-        plan: true,
-      },
-    });
-
-    const plan = activeSub?.plan;
-    const monthlyQuota = plan?.monthlyQuota ?? DEFAULT_FREE_QUOTA;
-
-    // 4) Calculate this month's usage from UsageCounter
-    const now = new Date();
-    const { start, end } = getCurrentMonthRange(now);
-
-    const counters = await prisma.usageCounter.findMany({
-      where: {
-        orgId: org.id,
-        date: {
-          gte: start,
-          lt: end,
-        },
-      },
-    });
-
-    const usedThisMonth = counters.reduce((sum, c) => sum + c.count, 0);
+      // 2) Parse body
+      let body: unknown;
+      try {
+        body = await req.json();
+      } catch {
+        return NextResponse.json(
+          { error: "Invalid JSON body." },
+          { status: 400 }
+        );
+      }
 
-    if (usedThisMonth >= monthlyQuota) {
-      return NextResponse.json(
-        {
-          error:
-            "Monthly quota exceeded. Upgrade your CleanMod plan to continue.",
-          quota: monthlyQuota,
-          used: usedThisMonth,
-        },
-        { status: 429 }
-      );
-    }
+      // A repeated Idempotency-Key replays the stored response instead
+      return withIdempotency(req, org.id, body, async () => {
+        const settings = await loadModerationSettings(org, apiKey.id);
+        const prepared = prepareModeration(
+          settings,
+          parseModerationInput(body)
+        );
 
-    // 5) Call moderation core (Unitary for now)
-    let moderationResult;
-    try {
-      moderationResult = await moderateWithUnitary(text, "english-basic");
+        // 3) Reserve one unit of this month's quota (past the quota only on
+        // soft-limit plans, up to their hard cap)
+        const now = new Date();
+        const reservation = await reserveQuota(org.id, 1, now);
+
+        let outcome: ModerationOutcome;
+        let log: { id: string; createdAt: Date; overage: boolean };
+        try {
+          // 4) Call moderation core (router dispatches to the model's provider)
+          outcome = await runModeration(settings, prepared);
+
+          // 5) Update lastUsedAt on API key
+          await prisma.apiKey.update({
+            where: { id: apiKey.id },
+            data: { lastUsedAt: now },
+          });
+
+          // 6) Log to DB and settle the reservation in one transaction; the
+          // plan decides whether cache hits count
+          const charged = !outcome.cached || reservation.countCachedHits;
+          const [overage] = overageFlags(reservation, [charged]);
+          log = await prisma.$transaction(async (tx) => {
+            const created = await tx.moderationLog.create({
+              data: {
+                ...toModerationLogData(settings, apiKey.id, outcome),
+                overage,
+              },
+            });
+            await settleQuota(reservation, charged ? 1 : 0, tx);
+            return created;
+          });
+        } catch (err) {
+          // Nothing was logged or charged: give the unit back
+          await releaseQuota(reservation);
+          throw err;
+        }
+
+        // 7) Update the end user's reputation
+        await recordEndUserOutcomes(settings, [outcome]);
+
+        // 8) Run the org's shadow candidate once the response has been sent
+        if (org.shadowModel) {
+          after(() =>
+            runShadowModeration(settings, [{ outcome, logId: log.id }])
+          );
+        }
+
+        // 9) Response to client
+        return NextResponse.json(toModerationResponse(settings, outcome, log), {
+          status: 200,
+        });
+      });
     } catch (err) {
-      // Check if this is a provider authentication error using type-safe instanceof
-      if (err instanceof AuthenticationError) {
-        console.error("Moderation provider authentication error:", err);
+      if (err instanceof QuotaExceededError) {
+        return NextResponse.json(
+          { error: err.message, ...err.details },
+          { status: 429 }
+        );
+      }
+
+      if (err instanceof ModerationRequestError) {
         return NextResponse.json(
-          {
-            error:
-              "Moderation service authentication failed. Please contact support.",
-          },
-          { status: 503 }
+          { error: err.message, ...err.details },
+          { status: err.status }
         );
       }
 
-      // For other provider errors (network, service unavailable, invalid response, etc.)
-      // Return 503 Service Unavailable with a generic message to avoid leaking implementation details
-      console.error("Moderation provider error:", err);
+      console.error("Moderation API error:", err);
       return NextResponse.json(
-        {
-          error:
-            "Moderation service is temporarily unavailable. Please try again later.",
-        },
-        { status: 503 }
+        { error: "Internal server error." },
+        { status: 500 }
       );
     }
-
-    // 6) Update lastUsedAt on API key
-    await prisma.apiKey.update({
-      where: { id: apiKey.id },
-      data: { lastUsedAt: now },
-    });
-
-    // 7) Log to DB
-    const inputHash = hashInput(text);
-    // Only compute and store inputPreview if org has enabled it
-    const inputPreview =
-      org.storeInputPreview === true ? buildInputPreview(text) : null;
-
-    const log = await prisma.moderationLog.create({
-      data: {
-        orgId: org.id,
-        apiKeyId: apiKey.id,
-        provider: moderationResult.provider,
-        model: moderationResult.providerModel,
-        inputHash,
-        inputPreview,
-        rawScore: {}, // can store provider raw later
-        normalized: moderationResult as unknown as Prisma.InputJsonValue,
-        decision: moderationResult.decision,
-      },
-    });
-
-    // 8) Increment usage counter (daily)
-    const day = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    await prisma.usageCounter.upsert({
-      where: {
-        orgId_date: {
-          orgId: org.id,
-          date: day,
-        },
-      },
-      update: {
-        count: { increment: 1 },
-      },
-      create: {
-        orgId: org.id,
-        date: day,
-        count: 1,
-      },
-    });
-
-    // 9) Response to client
-    return NextResponse.json(
-      {
-        id: log.id,
-        model: modelKey,
-        provider: moderationResult.provider,
-        providerModel: moderationResult.providerModel,
-        decision: moderationResult.decision,
-        overall_score: moderationResult.overall_score,
-        threshold: moderationResult.threshold,
-        categories: moderationResult.categories,
-        created_at: log.createdAt.toISOString(),
-      },
-      { status: 200 }
-    );
-  } catch (err) {
-    console.error("Moderation API error:", err);
-    return NextResponse.json(
-      { error: "Internal server error." },
-      { status: 500 }
-    );
-  }
+  });
 }
@@ -0,0 +1,86 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { rotateCallbackSecret } from "../actions";
+
+type CallbackSecretProps = {
+  secret: string | null; // null until the first async job with a callback
+};
+
+export function CallbackSecret({ secret }: CallbackSecretProps) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [revealed, setRevealed] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const handleRotate = () => {
+    if (
+      secret &&
+      !confirm(
+        "Rotate the callback secret? Receivers verifying the old secret will reject new callbacks until they are updated."
+      )
+    ) {
+      return;
+    }
+
+    setError(null);
+    startTransition(async () => {
+      const result = await rotateCallbackSecret();
+      if (!result.success) {
+        setError(result.error);
+      }
+    });
+  };
+
+  const copyToClipboard = async (text: string) => {
+    await navigator.clipboard.writeText(text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {secret ? (
+          <>
+            <code className="flex-1 break-all rounded bg-slate-100 px-2 py-1 font-mono text-[11px] text-slate-700">
+              {revealed ? secret : `${secret.slice(0, 12)}${"•".repeat(24)}`}
+            </code>
+            <button
+              onClick={() => setRevealed(!revealed)}
+              className="rounded bg-slate-100 px-2 py-1 text-xs font-medium text-slate-700 hover:bg-slate-200"
+            >
+              {revealed ? "Hide" : "Reveal"}
+            </button>
+            <button
+              onClick={() => copyToClipboard(secret)}
+              className={`rounded px-2 py-1 text-xs font-medium transition-colors ${
+                copied
+                  ? "bg-emerald-600 text-white"
+                  : "bg-slate-100 text-slate-700 hover:bg-slate-200"
+              }`}
+            >
+              {copied ? "Copied!" : "Copy"}
+            </button>
+          </>
+        ) : (
+          <span className="flex-1 text-xs italic text-slate-400">
+            No secret yet
+          </span>
+        )}
+        <button
+          onClick={handleRotate}
+          disabled={isPending}
+          className="rounded bg-slate-900 px-2 py-1 text-xs font-medium text-white hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isPending ? "Saving..." : secret ? "Rotate" : "Generate"}
+        </button>
+      </div>
+      {error && (
+        <p className="text-xs text-rose-600" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
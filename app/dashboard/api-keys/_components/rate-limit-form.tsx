@@ -0,0 +1,69 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { updateApiKeyRateLimit } from "../actions";
+
+type RateLimitFormProps = {
+  keyId: string;
+  initialLimit: number | null; // null = plan default
+  planLimit: number;
+};
+
+export function RateLimitForm({
+  keyId,
+  initialLimit,
+  planLimit,
+}: RateLimitFormProps) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [value, setValue] = useState(
+    initialLimit !== null ? String(initialLimit) : ""
+  );
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    startTransition(async () => {
+      const result = await updateApiKeyRateLimit(
+        keyId,
+        value.trim() ? Number(value) : null
+      );
+      if (!result.success) {
+        setError(result.error);
+      }
+    });
+  };
+
+  const unchanged = (value.trim() ? Number(value) : null) === initialLimit;
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-1">
+      <div className="flex items-center gap-1">
+        <input
+          type="number"
+          min={1}
+          step={1}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          disabled={isPending}
+          placeholder={String(planLimit)}
+          className="w-20 rounded-lg border border-slate-300 px-2 py-1 text-xs text-slate-900 placeholder-slate-400 focus:border-emerald-500 focus:outline-none focus:ring-1 focus:ring-emerald-500 disabled:bg-slate-50 disabled:text-slate-500"
+        />
+        <span className="text-xs text-slate-500">/min</span>
+        <button
+          type="submit"
+          disabled={isPending || unchanged}
+          className="rounded bg-slate-900 px-2 py-1 text-xs font-medium text-white hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isPending ? "Saving..." : "Save"}
+        </button>
+      </div>
+      {error && (
+        <p className="text-xs text-rose-600" role="alert">
+          {error}
+        </p>
+      )}
+    </form>
+  );
+}
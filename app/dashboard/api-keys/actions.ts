@@ -4,6 +4,7 @@ import { revalidatePath } from "next/cache";
 import { prisma } from "@/lib/db";
 import { getCurrentOrganization } from "@/lib/auth";
 import { generateApiKey, hashApiKey } from "@/lib/api-keys";
+import { generateCallbackSecret } from "@/lib/callbacks";
 
 export type CreateApiKeyResult =
   | { success: true; rawKey: string; name: string }
@@ -166,3 +167,94 @@ export async function deactivateApiKey(
     };
   }
 }
+
+export type UpdateApiKeyRateLimitResult =
+  | { success: true }
+  | { success: false; error: string };
+
+// Per-key overrides above this need a plan change instead
+const MAX_KEY_RATE_LIMIT_PER_MINUTE = 10_000;
+
+/**
+ * Set an API key's requests-per-minute limit (null = use the plan's default)
+ */
+export async function updateApiKeyRateLimit(
+  keyId: string,
+  rateLimitPerMinute: number | null
+): Promise<UpdateApiKeyRateLimitResult> {
+  try {
+    const org = await getCurrentOrganization();
+
+    if (!org) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    if (
+      rateLimitPerMinute !== null &&
+      (!Number.isInteger(rateLimitPerMinute) ||
+        rateLimitPerMinute < 1 ||
+        rateLimitPerMinute > MAX_KEY_RATE_LIMIT_PER_MINUTE)
+    ) {
+      return {
+        success: false,
+        error: `Rate limit must be a whole number between 1 and ${MAX_KEY_RATE_LIMIT_PER_MINUTE.toLocaleString()} requests per minute`,
+      };
+    }
+
+    const { count } = await prisma.apiKey.updateMany({
+      where: { id: keyId, orgId: org.id },
+      data: { rateLimitPerMinute },
+    });
+
+    if (count === 0) {
+      return { success: false, error: "API key not found" };
+    }
+
+    revalidatePath("/dashboard/api-keys");
+
+    return { success: true };
+  } catch (error: unknown) {
+    console.error("Error updating API key rate limit:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to update rate limit",
+    };
+  }
+}
+
+export type RotateCallbackSecretResult =
+  | { success: true }
+  | { success: false; error: string };
+
+/**
+ * Replace the organization's callback signing secret. Callbacks sent from
+ * now on are signed with the new secret.
+ */
+export async function rotateCallbackSecret(): Promise<RotateCallbackSecretResult> {
+  try {
+    const org = await getCurrentOrganization();
+
+    if (!org) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    await prisma.organization.update({
+      where: { id: org.id },
+      data: { callbackSecret: generateCallbackSecret() },
+    });
+
+    revalidatePath("/dashboard/api-keys");
+
+    return { success: true };
+  } catch (error: unknown) {
+    console.error("Error rotating callback secret:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to rotate callback secret",
+    };
+  }
+}
@@ -2,8 +2,11 @@
 
 import { prisma } from "@/lib/db";
 import { getCurrentOrganization } from "@/lib/auth";
+import { getPlanRateLimits } from "@/lib/rate-limit";
 import { ApiKeyActions } from "./_components/api-key-actions";
+import { CallbackSecret } from "./_components/callback-secret";
 import { DeactivateButton } from "./_components/deactivate-button";
+import { RateLimitForm } from "./_components/rate-limit-form";
 
 function maskHash(hash: string): string {
   if (!hash) return "";
@@ -24,11 +27,14 @@ export default async function ApiKeysPage() {
     );
   }
 
-  // Load API keys for the current organization
-  const keys = await prisma.apiKey.findMany({
-    where: { orgId: org.id },
-    orderBy: { createdAt: "asc" },
-  });
+  // Load API keys for the current organization and its plan's rate limits
+  const [keys, planRateLimits] = await Promise.all([
+    prisma.apiKey.findMany({
+      where: { orgId: org.id },
+      orderBy: { createdAt: "asc" },
+    }),
+    getPlanRateLimits(org.id),
+  ]);
 
   return (
     <div className="w-full">
@@ -69,6 +75,46 @@ export default async function ApiKeysPage() {
             CleanMod never stores the raw API key, only a hash. Make sure you
             keep the original key in a safe place when it is created.
           </p>
+
+          <p className="mt-2 text-[11px] text-slate-500">
+            Each key may send up to {planRateLimits.key.toLocaleString()}{" "}
+            requests per minute unless you set its own limit below, and all keys
+            together up to {planRateLimits.org.toLocaleString()} per minute.
+            Responses carry{" "}
+            <code className="rounded bg-slate-100 px-1 py-0.5 text-[11px]">
+              X-RateLimit-Limit
+            </code>
+            ,{" "}
+            <code className="rounded bg-slate-100 px-1 py-0.5 text-[11px]">
+              X-RateLimit-Remaining
+            </code>{" "}
+            and{" "}
+            <code className="rounded bg-slate-100 px-1 py-0.5 text-[11px]">
+              X-RateLimit-Reset
+            </code>{" "}
+            headers; throttled requests get a 429 with{" "}
+            <code className="rounded bg-slate-100 px-1 py-0.5 text-[11px]">
+              Retry-After
+            </code>
+            .
+          </p>
+        </div>
+      </section>
+
+      <section className="mb-6">
+        <div className="rounded-xl bg-white p-4 shadow-sm border border-slate-200">
+          <h2 className="text-sm font-semibold tracking-tight">
+            Callback signing secret
+          </h2>
+          <p className="mt-2 mb-3 text-xs text-slate-600">
+            Callbacks for async moderation jobs carry an{" "}
+            <code className="rounded bg-slate-100 px-1 py-0.5 text-[11px]">
+              X-CleanMod-Signature
+            </code>{" "}
+            header signed with this secret. Verify it before trusting a
+            callback.
+          </p>
+          <CallbackSecret secret={org.callbackSecret} />
         </div>
       </section>
 
@@ -98,6 +144,7 @@ export default async function ApiKeysPage() {
                   <th className="px-4 py-3">Status</th>
                   <th className="px-4 py-3">Created</th>
                   <th className="px-4 py-3">Last Used</th>
+                  <th className="px-4 py-3">Rate Limit</th>
                   <th className="px-4 py-3">Actions</th>
                 </tr>
               </thead>
@@ -131,6 +178,13 @@ export default async function ApiKeysPage() {
                     <td className="px-4 py-2 align-top text-xs text-slate-600">
                       {key.lastUsedAt ? key.lastUsedAt.toISOString() : "—"}
                     </td>
+                    <td className="px-4 py-2 align-top text-xs">
+                      <RateLimitForm
+                        keyId={key.id}
+                        initialLimit={key.rateLimitPerMinute}
+                        planLimit={planRateLimits.key}
+                      />
+                    </td>
                     <td className="px-4 py-2 align-top text-xs">
                       <DeactivateButton
                         keyId={key.id}
@@ -0,0 +1,50 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { resetReputation } from "../actions";
+
+type ResetReputationButtonProps = {
+  endUserId: string;
+};
+
+export function ResetReputationButton({
+  endUserId,
+}: ResetReputationButtonProps) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleReset = () => {
+    if (
+      !confirm(
+        `Reset the reputation of "${endUserId}"? Their score and flag/block counts go back to zero.`
+      )
+    ) {
+      return;
+    }
+
+    setError(null);
+    startTransition(async () => {
+      const result = await resetReputation(endUserId);
+      if (!result.success) {
+        setError(result.error);
+      }
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-1">
+      <button
+        onClick={handleReset}
+        disabled={isPending}
+        className="rounded bg-rose-50 px-2 py-1 text-xs font-medium text-rose-700 hover:bg-rose-100 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isPending ? "Resetting..." : "Reset"}
+      </button>
+      {error && (
+        <span className="text-xs text-rose-600" title={error}>
+          Failed
+        </span>
+      )}
+    </div>
+  );
+}
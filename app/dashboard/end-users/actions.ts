@@ -0,0 +1,40 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { getCurrentOrganization } from "@/lib/auth";
+import { resetEndUserReputation } from "@/lib/end-user-reputation";
+
+export type ResetReputationResult =
+  | { success: true }
+  | { success: false; error: string };
+
+/**
+ * Clear an end user's score and offense counts.
+ */
+export async function resetReputation(
+  endUserId: string
+): Promise<ResetReputationResult> {
+  try {
+    const org = await getCurrentOrganization();
+
+    if (!org) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const reputation = await resetEndUserReputation(org.id, endUserId);
+    if (!reputation) {
+      return { success: false, error: "End user not found" };
+    }
+
+    revalidatePath("/dashboard/end-users");
+
+    return { success: true };
+  } catch (error: unknown) {
+    console.error("Error resetting end user reputation:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to reset reputation",
+    };
+  }
+}
@@ -0,0 +1,320 @@
+// app/dashboard/end-users/page.tsx
+
+import Link from "next/link";
+import { getCurrentOrganization } from "@/lib/auth";
+import {
+  getEndUserReputation,
+  listEndUserReputations,
+  REPUTATION_HALF_LIFE_DAYS,
+  type EndUserReputationView,
+} from "@/lib/end-user-reputation";
+import { getActivePolicy } from "@/lib/policies";
+import { OFFENSE_POINTS, RISK_TIER_SCORES } from "@/lib/moderation/reputation";
+import type { RiskTier } from "@/lib/moderation/types";
+import { ResetReputationButton } from "./_components/reset-reputation-button";
+
+const PAGE_SIZE = 20;
+const TIER_OPTIONS = [
+  { value: undefined, label: "All" },
+  { value: "elevated", label: "Elevated or high" },
+  { value: "high", label: "High" },
+] as const;
+
+type SearchParams = {
+  [key: string]: string | string[] | undefined;
+};
+
+type EndUsersPageProps = {
+  searchParams?: Promise<SearchParams> | SearchParams;
+};
+
+type TierFilter = Exclude<RiskTier, "low">;
+
+function buildQueryString(tier?: string, page?: number): string {
+  const params = new URLSearchParams();
+  if (tier) params.set("tier", tier);
+  if (page && page > 1) params.set("page", String(page));
+  const query = params.toString();
+  return query ? `/dashboard/end-users?${query}` : "/dashboard/end-users";
+}
+
+function tierBadgeClass(tier: RiskTier): string {
+  return (
+    "inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium " +
+    (tier === "high"
+      ? "bg-rose-100 text-rose-700"
+      : tier === "elevated"
+      ? "bg-amber-100 text-amber-700"
+      : "bg-emerald-100 text-emerald-700")
+  );
+}
+
+function formatMargin(margin: number | undefined): string {
+  return margin ? `lowered by ${margin}` : "unchanged";
+}
+
+export default async function EndUsersPage({
+  searchParams,
+}: EndUsersPageProps) {
+  const org = await getCurrentOrganization();
+
+  if (!org) {
+    return (
+      <div className="flex min-h-[60vh] items-center justify-center">
+        <p className="text-gray-600">
+          Unable to load organization. Please try refreshing.
+        </p>
+      </div>
+    );
+  }
+
+  // Await searchParams if it's a Promise (Next.js 15+)
+  const resolvedSearchParams =
+    searchParams instanceof Promise ? await searchParams : searchParams;
+
+  const rawTier = resolvedSearchParams?.tier
+    ? String(resolvedSearchParams.tier)
+    : undefined;
+  const tier =
+    rawTier === "elevated" || rawTier === "high"
+      ? (rawTier as TierFilter)
+      : undefined;
+  const searchedUser = resolvedSearchParams?.user
+    ? String(resolvedSearchParams.user).trim()
+    : "";
+  const rawPage = resolvedSearchParams?.page
+    ? parseInt(String(resolvedSearchParams.page), 10)
+    : 1;
+  const page = isNaN(rawPage) || rawPage < 1 ? 1 : rawPage;
+
+  const [policy, listing, searched] = await Promise.all([
+    getActivePolicy(org.id),
+    searchedUser
+      ? null
+      : listEndUserReputations(org.id, {
+          tier,
+          limit: PAGE_SIZE,
+          offset: (page - 1) * PAGE_SIZE,
+        }),
+    searchedUser ? getEndUserReputation(org.id, searchedUser) : null,
+  ]);
+
+  const users: EndUserReputationView[] = listing
+    ? listing.users
+    : searched
+    ? [searched]
+    : [];
+  const totalPages = listing ? Math.ceil(listing.total / PAGE_SIZE) : 1;
+  const escalation = policy.config.escalation;
+
+  return (
+    <div className="w-full">
+      {/* Header */}
+      <header className="mb-6">
+        <h1 className="text-xl font-semibold tracking-tight">End Users</h1>
+        <p className="mt-1 text-xs text-slate-600">
+          Reputation of the end users you identify with{" "}
+          <code className="rounded bg-slate-100 px-1 py-0.5 text-[11px]">
+            context.user_id
+          </code>
+          . Each flag adds {OFFENSE_POINTS.flag} point and each block{" "}
+          {OFFENSE_POINTS.block} points; points halve every{" "}
+          {REPUTATION_HALF_LIFE_DAYS} days. A score of{" "}
+          {RISK_TIER_SCORES.elevated} or more is an elevated risk,{" "}
+          {RISK_TIER_SCORES.high} or more is high.
+        </p>
+      </header>
+
+      {/* Escalation Summary */}
+      <section className="mb-6">
+        <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+          <h2 className="mb-2 text-sm font-semibold tracking-tight">
+            Escalation
+          </h2>
+          <p className="text-xs text-slate-600">
+            Thresholds for elevated-risk users are{" "}
+            <span className="font-medium text-slate-800">
+              {formatMargin(escalation?.elevated)}
+            </span>
+            ; for high-risk users they are{" "}
+            <span className="font-medium text-slate-800">
+              {formatMargin(escalation?.high)}
+            </span>
+            . Borderline texts that cross a lowered threshold move up one
+            decision (allow to flag, flag to block). Change the margins on the{" "}
+            <Link
+              href="/dashboard/policy"
+              className="text-emerald-600 hover:text-emerald-700 underline"
+            >
+              policy page
+            </Link>
+            .
+          </p>
+        </div>
+      </section>
+
+      {/* Filters */}
+      <section className="mb-6 flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2">
+          <label className="text-xs font-medium text-slate-700">
+            Risk tier:
+          </label>
+          <div className="flex gap-1 rounded-lg border border-slate-200 bg-white p-1">
+            {TIER_OPTIONS.map(({ value, label }) => (
+              <Link
+                key={value || "all"}
+                href={buildQueryString(value)}
+                className={`rounded px-2 py-1 text-xs font-medium transition-colors ${
+                  !searchedUser && tier === value
+                    ? "bg-slate-900 text-white"
+                    : "text-slate-600 hover:bg-slate-100"
+                }`}
+              >
+                {label}
+              </Link>
+            ))}
+          </div>
+        </div>
+
+        <form
+          method="get"
+          action="/dashboard/end-users"
+          className="flex items-center gap-2"
+        >
+          <label htmlFor="user" className="text-xs font-medium text-slate-700">
+            User ID:
+          </label>
+          <input
+            id="user"
+            name="user"
+            type="text"
+            defaultValue={searchedUser}
+            placeholder="context.user_id"
+            className="w-40 rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs text-slate-900 placeholder-slate-400 focus:border-emerald-500 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+          />
+          {searchedUser && (
+            <Link
+              href="/dashboard/end-users"
+              className="text-xs text-slate-500 hover:text-slate-700"
+            >
+              Clear
+            </Link>
+          )}
+        </form>
+      </section>
+
+      {/* Users Table */}
+      <section>
+        {users.length === 0 ? (
+          <div className="rounded-lg border border-dashed border-slate-300 bg-slate-50 p-6 text-center text-sm text-slate-500">
+            {searchedUser
+              ? `No reputation recorded for "${searchedUser}".`
+              : "No end users found. Send context.user_id with your moderation requests to track reputations."}
+          </div>
+        ) : (
+          <div className="overflow-hidden rounded-xl border border-slate-200 bg-white shadow-sm">
+            <table className="min-w-full text-left text-sm">
+              <thead className="bg-slate-50 text-xs uppercase text-slate-500">
+                <tr>
+                  <th className="px-4 py-3">User ID</th>
+                  <th className="px-4 py-3">Risk tier</th>
+                  <th className="px-4 py-3">Score</th>
+                  <th className="px-4 py-3">Flags</th>
+                  <th className="px-4 py-3">Blocks</th>
+                  <th className="px-4 py-3">Requests</th>
+                  <th className="px-4 py-3">Last seen</th>
+                  <th className="px-4 py-3">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {users.map((user) => (
+                  <tr
+                    key={user.endUserId}
+                    className="border-t border-slate-100 hover:bg-slate-50/70"
+                  >
+                    <td className="max-w-[14rem] truncate px-4 py-2 align-top font-mono text-xs text-slate-700">
+                      <span title={user.endUserId}>{user.endUserId}</span>
+                    </td>
+                    <td className="px-4 py-2 align-top text-xs">
+                      <span className={tierBadgeClass(user.riskTier)}>
+                        {user.riskTier}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 align-top text-xs text-slate-700">
+                      {user.score.toFixed(2)}
+                    </td>
+                    <td className="px-4 py-2 align-top text-xs text-slate-700">
+                      {user.flagCount.toLocaleString()}
+                    </td>
+                    <td className="px-4 py-2 align-top text-xs text-slate-700">
+                      {user.blockCount.toLocaleString()}
+                    </td>
+                    <td className="px-4 py-2 align-top text-xs text-slate-700">
+                      {user.requestCount.toLocaleString()}
+                    </td>
+                    <td className="px-4 py-2 align-top text-xs text-slate-600">
+                      {user.lastSeenAt.toISOString()}
+                      {user.resetAt && (
+                        <div className="text-slate-400">
+                          reset {user.resetAt.toISOString()}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 align-top text-xs">
+                      <div className="flex items-start gap-2">
+                        <Link
+                          href={`/dashboard/logs?${new URLSearchParams({
+                            user: user.endUserId,
+                          })}`}
+                          className="rounded bg-slate-100 px-2 py-1 text-xs font-medium text-slate-700 hover:bg-slate-200"
+                        >
+                          Logs
+                        </Link>
+                        <ResetReputationButton endUserId={user.endUserId} />
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <div className="mt-4 flex items-center justify-between">
+            <div className="text-xs text-slate-500">
+              Page {page} of {totalPages}
+            </div>
+            <div className="flex gap-2">
+              <Link
+                href={page > 1 ? buildQueryString(tier, page - 1) : "#"}
+                className={`rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-medium transition-colors ${
+                  page > 1
+                    ? "bg-white text-slate-700 hover:bg-slate-50"
+                    : "cursor-not-allowed bg-slate-50 text-slate-400"
+                }`}
+                aria-disabled={page <= 1}
+              >
+                Previous
+              </Link>
+              <Link
+                href={
+                  page < totalPages ? buildQueryString(tier, page + 1) : "#"
+                }
+                className={`rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-medium transition-colors ${
+                  page < totalPages
+                    ? "bg-white text-slate-700 hover:bg-slate-50"
+                    : "cursor-not-allowed bg-slate-50 text-slate-400"
+                }`}
+                aria-disabled={page >= totalPages}
+              >
+                Next
+              </Link>
+            </div>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -9,6 +9,11 @@ const navItems = [
   { href: "/dashboard", label: "Overview" },
   { href: "/dashboard/api-keys", label: "API Keys" },
   { href: "/dashboard/logs", label: "Logs" },
+  { href: "/dashboard/policy", label: "Policy" },
+  { href: "/dashboard/shadow", label: "Shadow Mode" },
+  { href: "/dashboard/rollouts", label: "Rollouts" },
+  { href: "/dashboard/end-users", label: "End Users" },
+  { href: "/dashboard/term-lists", label: "Term Lists" },
   { href: "/dashboard/profile", label: "Profile" },
 ];
 
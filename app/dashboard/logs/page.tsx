@@ -8,7 +8,14 @@ import Link from "next/link";
 // Constants
 const DAY_IN_MS = 24 * 60 * 60 * 1000;
 const DECISION_OPTIONS = ["allow", "flag", "block"] as const;
-const PROVIDER_OPTIONS = ["unitary", "openai"] as const;
+const PROVIDER_OPTIONS = [
+  "unitary",
+  "openai",
+  "self-hosted",
+  "lexical",
+  "ensemble",
+  "none", // every provider was down; answered by the org's failure mode
+] as const;
 
 type SearchParams = {
   [key: string]: string | string[] | undefined;
@@ -17,6 +24,9 @@ type SearchParams = {
 type FilterValues = {
   decision?: string;
   provider?: string;
+  language?: string;
+  source?: string;
+  user?: string;
   range?: string;
   page: number;
 };
@@ -30,6 +40,11 @@ function parseSearchParams(searchParams?: SearchParams): FilterValues {
     provider: searchParams?.provider
       ? String(searchParams.provider)
       : undefined,
+    language: searchParams?.language
+      ? String(searchParams.language)
+      : undefined,
+    source: searchParams?.source ? String(searchParams.source) : undefined,
+    user: searchParams?.user ? String(searchParams.user).trim() : undefined,
     range: searchParams?.range ? String(searchParams.range) : undefined,
     page: isNaN(page) || page < 1 ? 1 : page,
   };
@@ -77,6 +92,21 @@ function buildWhereClause(
     where.provider = filters.provider;
   }
 
+  // Language codes are free-form (whatever the detector emitted), so only
+  // check the shape
+  if (filters.language && /^[a-z]{2,3}$/.test(filters.language)) {
+    where.language = filters.language;
+  }
+
+  if (filters.source) {
+    where.source = filters.source;
+  }
+
+  // Exact match, so the (orgId, endUserId) index is used
+  if (filters.user) {
+    where.endUserId = filters.user;
+  }
+
   const fromDate = getDateRangeFromFilter(filters.range);
   if (fromDate) {
     where.createdAt = {
@@ -100,6 +130,11 @@ function buildQueryString(
     updates && "decision" in updates ? updates.decision : filters.decision;
   const finalProvider =
     updates && "provider" in updates ? updates.provider : filters.provider;
+  const finalLanguage =
+    updates && "language" in updates ? updates.language : filters.language;
+  const finalSource =
+    updates && "source" in updates ? updates.source : filters.source;
+  const finalUser = updates && "user" in updates ? updates.user : filters.user;
   const finalRange =
     updates && "range" in updates ? updates.range : filters.range;
   const finalPage = updates && "page" in updates ? updates.page : filters.page;
@@ -107,6 +142,9 @@ function buildQueryString(
   // Only add non-empty values to params
   if (finalDecision) params.set("decision", finalDecision);
   if (finalProvider) params.set("provider", finalProvider);
+  if (finalLanguage) params.set("language", finalLanguage);
+  if (finalSource) params.set("source", finalSource);
+  if (finalUser) params.set("user", finalUser);
   if (finalRange) params.set("range", finalRange);
   if (finalPage && finalPage > 1) params.set("page", String(finalPage));
 
@@ -155,8 +193,8 @@ export default async function LogsPage({ searchParams }: LogsPageProps) {
   const pageSize = 20;
   const skip = (filters.page - 1) * pageSize;
 
-  // Fetch logs and count in parallel
-  const [logs, totalCount] = await Promise.all([
+  // Fetch logs, count and the org's detected languages and sources in parallel
+  const [logs, totalCount, languageRows, sourceRows] = await Promise.all([
     prisma.moderationLog.findMany({
       where,
       orderBy: { createdAt: "desc" },
@@ -172,8 +210,27 @@ export default async function LogsPage({ searchParams }: LogsPageProps) {
       },
     }),
     prisma.moderationLog.count({ where }),
+    prisma.moderationLog.findMany({
+      where: { orgId: org.id, language: { not: null } },
+      distinct: ["language"],
+      select: { language: true },
+      orderBy: { language: "asc" },
+    }),
+    prisma.moderationLog.findMany({
+      where: { orgId: org.id, source: { not: null } },
+      distinct: ["source"],
+      select: { source: true },
+      orderBy: { source: "asc" },
+    }),
   ]);
 
+  const languageOptions = languageRows
+    .map((row) => row.language)
+    .filter((language): language is string => language !== null);
+  const sourceOptions = sourceRows
+    .map((row) => row.source)
+    .filter((source): source is string => source !== null);
+
   const totalPages = Math.ceil(totalCount / pageSize);
   const startItem = skip + 1;
   const endItem = Math.min(skip + pageSize, totalCount);
@@ -272,6 +329,106 @@ export default async function LogsPage({ searchParams }: LogsPageProps) {
           </div>
         </div>
 
+        {/* Language Filter */}
+        {languageOptions.length > 0 && (
+          <div className="flex items-center gap-2">
+            <label className="text-xs font-medium text-slate-700">
+              Language:
+            </label>
+            <div className="flex gap-1 rounded-lg border border-slate-200 bg-white p-1">
+              {["All", ...languageOptions].map((value) => {
+                const isActive =
+                  value === "All"
+                    ? !filters.language
+                    : filters.language === value;
+                const href = buildQueryString(filters, {
+                  language: value === "All" ? undefined : value,
+                  page: 1,
+                });
+
+                return (
+                  <Link
+                    key={value}
+                    href={href}
+                    className={`rounded px-2 py-1 text-xs font-medium transition-colors ${
+                      isActive
+                        ? "bg-slate-900 text-white"
+                        : "text-slate-600 hover:bg-slate-100"
+                    }`}
+                  >
+                    {value === "All" ? value : value.toUpperCase()}
+                  </Link>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* Source Filter */}
+        {sourceOptions.length > 0 && (
+          <div className="flex items-center gap-2">
+            <label className="text-xs font-medium text-slate-700">
+              Source:
+            </label>
+            <div className="flex gap-1 rounded-lg border border-slate-200 bg-white p-1">
+              {["All", ...sourceOptions].map((value) => {
+                const isActive =
+                  value === "All" ? !filters.source : filters.source === value;
+                const href = buildQueryString(filters, {
+                  source: value === "All" ? undefined : value,
+                  page: 1,
+                });
+
+                return (
+                  <Link
+                    key={value}
+                    href={href}
+                    className={`rounded px-2 py-1 text-xs font-medium transition-colors ${
+                      isActive
+                        ? "bg-slate-900 text-white"
+                        : "text-slate-600 hover:bg-slate-100"
+                    }`}
+                  >
+                    {value}
+                  </Link>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
+        {/* End User Filter */}
+        <form
+          method="get"
+          action="/dashboard/logs"
+          className="flex items-center gap-2"
+        >
+          <label htmlFor="user" className="text-xs font-medium text-slate-700">
+            End user:
+          </label>
+          {(["decision", "provider", "language", "source", "range"] as const)
+            .filter((key) => filters[key])
+            .map((key) => (
+              <input key={key} type="hidden" name={key} value={filters[key]} />
+            ))}
+          <input
+            id="user"
+            name="user"
+            type="text"
+            defaultValue={filters.user ?? ""}
+            placeholder="context.user_id"
+            className="w-40 rounded-lg border border-slate-200 bg-white px-2 py-1 text-xs text-slate-900 placeholder-slate-400 focus:border-emerald-500 focus:outline-none focus:ring-1 focus:ring-emerald-500"
+          />
+          {filters.user && (
+            <Link
+              href={buildQueryString(filters, { user: undefined, page: 1 })}
+              className="text-xs text-slate-500 hover:text-slate-700"
+            >
+              Clear
+            </Link>
+          )}
+        </form>
+
         {/* Date Range Filter */}
         <div className="flex items-center gap-2">
           <label className="text-xs font-medium text-slate-700">Range:</label>
@@ -343,6 +500,8 @@ export default async function LogsPage({ searchParams }: LogsPageProps) {
                       </div>
                     )}
                   </th>
+                  <th className="px-4 py-3">Language</th>
+                  <th className="px-4 py-3">Source</th>
                   <th className="px-4 py-3">Provider</th>
                   <th className="px-4 py-3">Model</th>
                   <th className="px-4 py-3">API Key</th>
@@ -394,6 +553,26 @@ export default async function LogsPage({ searchParams }: LogsPageProps) {
                           </span>
                         )}
                       </td>
+                      <td className="px-4 py-2 align-top text-xs text-slate-700">
+                        {log.language ? log.language.toUpperCase() : "—"}
+                      </td>
+                      <td className="px-4 py-2 align-top text-xs text-slate-700">
+                        {log.source ?? "—"}
+                        {log.endUserId && (
+                          <div className="max-w-[10rem] truncate text-slate-500">
+                            <Link
+                              href={buildQueryString(filters, {
+                                user: log.endUserId,
+                                page: 1,
+                              })}
+                              className="hover:text-slate-700 hover:underline"
+                              title={log.endUserId}
+                            >
+                              user {log.endUserId}
+                            </Link>
+                          </div>
+                        )}
+                      </td>
                       <td className="px-4 py-2 align-top text-xs text-slate-700">
                         {log.provider}
                       </td>
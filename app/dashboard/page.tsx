@@ -35,11 +35,16 @@ export default async function DashboardPage() {
   const activeSub = org.subscriptions[0] ?? null;
   const plan = activeSub?.plan ?? null;
   const monthlyQuota = plan?.monthlyQuota ?? 5000;
+  const hardCap = Math.max(monthlyQuota, plan?.monthlyHardCap ?? monthlyQuota);
 
   const monthlyUsage = org.usageCounters
     .filter((uc: { date: Date }) => uc.date >= monthStart && uc.date < monthEnd)
     .reduce((sum: number, uc: { count: number }) => sum + uc.count, 0);
 
+  const monthlyOverage = org.usageCounters
+    .filter((uc: { date: Date }) => uc.date >= monthStart && uc.date < monthEnd)
+    .reduce((sum: number, uc: { overage: number }) => sum + uc.overage, 0);
+
   const todaysUsage = org.usageCounters
     .filter((uc: { date: Date }) => uc.date >= todayStart && uc.date < todayEnd)
     .reduce((sum: number, uc: { count: number }) => sum + uc.count, 0);
@@ -101,6 +106,18 @@ export default async function DashboardPage() {
           <p className="mt-1 text-xs text-slate-500">
             {usagePercent}% of monthly quota
           </p>
+          {hardCap > monthlyQuota && (
+            <p className="mt-1 text-xs text-slate-500">
+              {monthlyOverage > 0 ? (
+                <span className="font-medium text-amber-700">
+                  {monthlyOverage.toLocaleString()} overage requests
+                </span>
+              ) : (
+                "No overage"
+              )}{" "}
+              · served up to {hardCap.toLocaleString()} / month
+            </p>
+          )}
         </div>
 
         <div className="rounded-xl bg-white p-4 shadow-sm border border-slate-200">
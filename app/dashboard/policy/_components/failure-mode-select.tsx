@@ -0,0 +1,88 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { updateOrgFailureMode } from "../actions";
+import type { FailureMode } from "@/lib/moderation-service";
+
+const OPTIONS: { value: FailureMode; label: string; description: string }[] = [
+  {
+    value: "error",
+    label: "Return an error",
+    description: "Respond with 503 and let your integration decide.",
+  },
+  {
+    value: "open",
+    label: "Fail open",
+    description: "Allow the text (decision “allow”).",
+  },
+  {
+    value: "closed",
+    label: "Fail closed",
+    description: "Block the text (decision “block”).",
+  },
+  {
+    value: "lexical",
+    label: "Word list",
+    description:
+      "Score the text with CleanMod’s built-in English word list (flags clear insults and threats only).",
+  },
+];
+
+type FailureModeSelectProps = {
+  initialValue: FailureMode;
+};
+
+export function FailureModeSelect({ initialValue }: FailureModeSelectProps) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [value, setValue] = useState(initialValue);
+
+  const handleChange = (newValue: FailureMode) => {
+    const previous = value;
+    setError(null);
+    setValue(newValue);
+    startTransition(async () => {
+      const result = await updateOrgFailureMode(newValue);
+      if (!result.success) {
+        setError(result.error);
+        // Revert on error
+        setValue(previous);
+      }
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="space-y-2">
+        {OPTIONS.map((option) => (
+          <label
+            key={option.value}
+            className="flex items-start gap-3 text-sm text-slate-700"
+          >
+            <input
+              type="radio"
+              name="failureMode"
+              value={option.value}
+              checked={value === option.value}
+              onChange={() => handleChange(option.value)}
+              disabled={isPending}
+              className="mt-0.5 accent-emerald-500"
+            />
+            <span>
+              <span className="font-medium">{option.label}</span>
+              <span className="ml-1 text-xs text-slate-500">
+                {option.description}
+              </span>
+            </span>
+          </label>
+        ))}
+      </div>
+      {isPending && <span className="text-xs text-slate-500">Saving...</span>}
+      {error && (
+        <p className="text-xs text-rose-600" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,463 @@
+"use client";
+
+import { useState, useTransition, useEffect } from "react";
+import { savePolicy } from "../actions";
+import {
+  ESCALATION_TIERS,
+  MAX_POLICY_SOURCES,
+  SOURCE_PATTERN,
+  type CategoryKey,
+  type CategoryThresholds,
+  type EscalationMargins,
+  type PolicyConfig,
+  type PolicyThresholds,
+} from "@/lib/moderation/policy";
+
+type ThresholdInputs = { flag: string; block: string };
+
+// Inputs for the base policy ("") or one source override
+type ScopeInputs = {
+  overall: ThresholdInputs;
+  categories: Record<string, ThresholdInputs>;
+};
+
+type PolicyFormProps = {
+  modelKeys: string[];
+  categories: CategoryKey[];
+  initialDefaultModel: string;
+  initialRules: PolicyConfig;
+};
+
+function toInputs(thresholds?: CategoryThresholds): ThresholdInputs {
+  return {
+    flag: thresholds?.flag !== undefined ? String(thresholds.flag) : "",
+    block: thresholds?.block !== undefined ? String(thresholds.block) : "",
+  };
+}
+
+function toThresholds(inputs: ThresholdInputs): CategoryThresholds {
+  const thresholds: CategoryThresholds = {};
+  if (inputs.flag.trim()) thresholds.flag = Number(inputs.flag);
+  if (inputs.block.trim()) thresholds.block = Number(inputs.block);
+  return thresholds;
+}
+
+function toScopeInputs(
+  categories: CategoryKey[],
+  rules?: PolicyThresholds
+): ScopeInputs {
+  return {
+    overall: toInputs(rules?.overall),
+    categories: Object.fromEntries(
+      categories.map((category) => [
+        category,
+        toInputs(rules?.categories[category]),
+      ])
+    ),
+  };
+}
+
+function toPolicyThresholds(
+  categories: CategoryKey[],
+  inputs: ScopeInputs
+): PolicyThresholds {
+  return {
+    overall: toThresholds(inputs.overall),
+    categories: Object.fromEntries(
+      categories.map((category) => [
+        category,
+        toThresholds(inputs.categories[category]),
+      ])
+    ),
+  };
+}
+
+export function PolicyForm({
+  modelKeys,
+  categories,
+  initialDefaultModel,
+  initialRules,
+}: PolicyFormProps) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [savedVersion, setSavedVersion] = useState<number | null>(null);
+  const [defaultModel, setDefaultModel] = useState(initialDefaultModel);
+  // "" is the base policy; other keys are `context.source` overrides
+  const [scopes, setScopes] = useState<Record<string, ScopeInputs>>(() => ({
+    "": toScopeInputs(categories, initialRules),
+    ...Object.fromEntries(
+      Object.entries(initialRules.sources ?? {}).map(([source, rules]) => [
+        source,
+        toScopeInputs(categories, rules),
+      ])
+    ),
+  }));
+  const [activeScope, setActiveScope] = useState("");
+  const [escalationInputs, setEscalationInputs] = useState<
+    Record<string, string>
+  >(() =>
+    Object.fromEntries(
+      ESCALATION_TIERS.map((tier) => [
+        tier,
+        initialRules.escalation?.[tier] !== undefined
+          ? String(initialRules.escalation[tier])
+          : "",
+      ])
+    )
+  );
+  const [newSource, setNewSource] = useState("");
+  const sources = Object.keys(scopes).filter((scope) => scope !== "");
+  const { overall, categories: categoryInputs } = scopes[activeScope];
+
+  useEffect(() => {
+    if (savedVersion !== null) {
+      const timer = setTimeout(() => {
+        setSavedVersion(null);
+      }, 3000);
+      return () => clearTimeout(timer);
+    }
+  }, [savedVersion]);
+
+  const updateOverall = (action: keyof ThresholdInputs, value: string) => {
+    setScopes((prev) => ({
+      ...prev,
+      [activeScope]: {
+        ...prev[activeScope],
+        overall: { ...prev[activeScope].overall, [action]: value },
+      },
+    }));
+  };
+
+  const updateCategory = (
+    category: string,
+    action: keyof ThresholdInputs,
+    value: string
+  ) => {
+    setScopes((prev) => ({
+      ...prev,
+      [activeScope]: {
+        ...prev[activeScope],
+        categories: {
+          ...prev[activeScope].categories,
+          [category]: {
+            ...prev[activeScope].categories[category],
+            [action]: value,
+          },
+        },
+      },
+    }));
+  };
+
+  const handleAddSource = () => {
+    const source = newSource.trim();
+    setError(null);
+
+    if (!SOURCE_PATTERN.test(source)) {
+      setError(
+        'Sources use lowercase letters, digits, "_", "-" or "." (up to 64 characters)'
+      );
+      return;
+    }
+    if (!(source in scopes)) {
+      if (sources.length >= MAX_POLICY_SOURCES) {
+        setError(
+          `A policy can have at most ${MAX_POLICY_SOURCES} source overrides`
+        );
+        return;
+      }
+      setScopes((prev) => ({
+        ...prev,
+        [source]: toScopeInputs(categories),
+      }));
+    }
+    setActiveScope(source);
+    setNewSource("");
+  };
+
+  const handleRemoveSource = (source: string) => {
+    setScopes((prev) => {
+      const next = { ...prev };
+      delete next[source];
+      return next;
+    });
+    setActiveScope("");
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+    setSavedVersion(null);
+
+    const escalation: EscalationMargins = {};
+    for (const tier of ESCALATION_TIERS) {
+      if (escalationInputs[tier].trim()) {
+        escalation[tier] = Number(escalationInputs[tier]);
+      }
+    }
+
+    const rules: PolicyConfig = {
+      ...toPolicyThresholds(categories, scopes[""]),
+      escalation,
+      sources: Object.fromEntries(
+        sources.map((source) => [
+          source,
+          toPolicyThresholds(categories, scopes[source]),
+        ])
+      ),
+    };
+
+    startTransition(async () => {
+      const result = await savePolicy({ defaultModel, rules });
+
+      if (result.success) {
+        setSavedVersion(result.version);
+      } else {
+        setError(result.error);
+      }
+    });
+  };
+
+  const inputClassName =
+    "w-20 rounded-lg border border-slate-300 px-2 py-1 text-xs text-slate-900 placeholder-slate-400 focus:border-emerald-500 focus:outline-none focus:ring-1 focus:ring-emerald-500 disabled:bg-slate-50 disabled:text-slate-500";
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div>
+        <label
+          htmlFor="defaultModel"
+          className="block text-xs font-medium text-slate-700 mb-1"
+        >
+          Default model
+        </label>
+        <select
+          id="defaultModel"
+          value={defaultModel}
+          onChange={(e) => setDefaultModel(e.target.value)}
+          disabled={isPending}
+          className="rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-900 focus:border-emerald-500 focus:outline-none focus:ring-1 focus:ring-emerald-500 disabled:bg-slate-50 disabled:text-slate-500"
+        >
+          {modelKeys.map((key) => (
+            <option key={key} value={key}>
+              {key}
+            </option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-slate-500">
+          Used when a request does not specify a model.
+        </p>
+      </div>
+
+      <div>
+        <p className="block text-xs font-medium text-slate-700 mb-1">
+          Thresholds for
+        </p>
+        <div className="flex flex-wrap items-center gap-3">
+          <div className="flex flex-wrap gap-1 rounded-lg border border-slate-200 bg-white p-1">
+            {["", ...sources].map((scope) => (
+              <button
+                key={scope || "all"}
+                type="button"
+                onClick={() => setActiveScope(scope)}
+                disabled={isPending}
+                className={`rounded px-2 py-1 text-xs font-medium transition-colors ${
+                  scope === activeScope
+                    ? "bg-slate-900 text-white"
+                    : "text-slate-600 hover:bg-slate-100"
+                }`}
+              >
+                {scope || "All sources"}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={newSource}
+              onChange={(e) => setNewSource(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  handleAddSource();
+                }
+              }}
+              disabled={isPending}
+              placeholder="e.g. username"
+              className="w-36 rounded-lg border border-slate-300 px-2 py-1 text-xs text-slate-900 placeholder-slate-400 focus:border-emerald-500 focus:outline-none focus:ring-1 focus:ring-emerald-500 disabled:bg-slate-50 disabled:text-slate-500"
+            />
+            <button
+              type="button"
+              onClick={handleAddSource}
+              disabled={isPending || !newSource.trim()}
+              className="rounded-lg border border-slate-300 px-2 py-1 text-xs font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Add source
+            </button>
+          </div>
+        </div>
+        <p className="mt-1 text-xs text-slate-500">
+          {activeScope === "" ? (
+            <>
+              Applied to every request. Add a source to use different thresholds
+              for requests with that{" "}
+              <code className="rounded bg-slate-100 px-1 py-0.5 text-[11px]">
+                context.source
+              </code>
+              .
+            </>
+          ) : (
+            <>
+              Applied to requests with{" "}
+              <code className="rounded bg-slate-100 px-1 py-0.5 text-[11px]">
+                context.source
+              </code>{" "}
+              &quot;{activeScope}&quot;. Empty fields use the thresholds for all
+              sources.{" "}
+              <button
+                type="button"
+                onClick={() => handleRemoveSource(activeScope)}
+                disabled={isPending}
+                className="font-medium text-rose-600 hover:text-rose-700 disabled:opacity-50"
+              >
+                Remove override
+              </button>
+            </>
+          )}
+        </p>
+      </div>
+
+      <div className="overflow-hidden rounded-xl border border-slate-200">
+        <table className="min-w-full text-left text-sm">
+          <thead className="bg-slate-50 text-xs uppercase text-slate-500">
+            <tr>
+              <th className="px-4 py-3">Category</th>
+              <th className="px-4 py-3">Flag at ≥</th>
+              <th className="px-4 py-3">Block at ≥</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-t border-slate-100 bg-slate-50/50">
+              <td className="px-4 py-2 text-xs font-medium text-slate-800">
+                overall_score
+              </td>
+              <td className="px-4 py-2">
+                <input
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  max={1}
+                  value={overall.flag}
+                  onChange={(e) => updateOverall("flag", e.target.value)}
+                  disabled={isPending}
+                  placeholder={activeScope === "" ? "model" : "—"}
+                  className={inputClassName}
+                />
+              </td>
+              <td className="px-4 py-2">
+                <input
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  max={1}
+                  value={overall.block}
+                  onChange={(e) => updateOverall("block", e.target.value)}
+                  disabled={isPending}
+                  placeholder="—"
+                  className={inputClassName}
+                />
+              </td>
+            </tr>
+            {categories.map((category) => (
+              <tr key={category} className="border-t border-slate-100">
+                <td className="px-4 py-2 font-mono text-xs text-slate-700">
+                  {category}
+                </td>
+                {(["flag", "block"] as const).map((action) => (
+                  <td key={action} className="px-4 py-2">
+                    <input
+                      type="number"
+                      step="0.01"
+                      min={0}
+                      max={1}
+                      value={categoryInputs[category][action]}
+                      onChange={(e) =>
+                        updateCategory(category, action, e.target.value)
+                      }
+                      disabled={isPending}
+                      placeholder="—"
+                      className={inputClassName}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <p className="block text-xs font-medium text-slate-700 mb-1">
+          Repeat offenders
+        </p>
+        <div className="flex flex-wrap items-center gap-4">
+          {ESCALATION_TIERS.map((tier) => (
+            <label
+              key={tier}
+              className="flex items-center gap-2 text-xs text-slate-700"
+            >
+              Lower thresholds for {tier}-risk users by
+              <input
+                type="number"
+                step="0.01"
+                min={0}
+                max={1}
+                value={escalationInputs[tier]}
+                onChange={(e) =>
+                  setEscalationInputs((prev) => ({
+                    ...prev,
+                    [tier]: e.target.value,
+                  }))
+                }
+                disabled={isPending}
+                placeholder="0"
+                className={inputClassName}
+              />
+            </label>
+          ))}
+        </div>
+        <p className="mt-1 text-xs text-slate-500">
+          Applies to requests with a{" "}
+          <code className="rounded bg-slate-100 px-1 py-0.5 text-[11px]">
+            context.user_id
+          </code>{" "}
+          whose recent flags and blocks put them in that risk tier. A text that
+          crosses a lowered threshold moves up one decision: allow to flag, or
+          flag to block.
+        </p>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-rose-50 border border-rose-200 px-3 py-2">
+          <p className="text-xs text-rose-600" role="alert">
+            {error}
+          </p>
+        </div>
+      )}
+
+      {savedVersion !== null && (
+        <div className="rounded-lg bg-emerald-50 border border-emerald-200 px-3 py-2">
+          <p className="text-xs text-emerald-600">
+            Policy saved as version {savedVersion}
+          </p>
+        </div>
+      )}
+
+      <button
+        type="submit"
+        disabled={isPending}
+        className="rounded-lg bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-800 focus:outline-none focus:ring-2 focus:ring-slate-500 focus:ring-offset-2 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isPending ? "Saving..." : "Save Policy"}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,271 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { getCurrentOrganization } from "@/lib/auth";
+import { MODEL_MAP } from "@/lib/moderation/router";
+import { getPlanModels } from "@/lib/usage";
+import {
+  ESCALATION_TIERS,
+  MAX_POLICY_SOURCES,
+  POLICY_CATEGORIES,
+  SOURCE_PATTERN,
+  type CategoryThresholds,
+  type EscalationMargins,
+  type PolicyConfig,
+  type PolicyThresholds,
+} from "@/lib/moderation/policy";
+import { FAILURE_MODES, type FailureMode } from "@/lib/moderation-service";
+
+export type SavePolicyResult =
+  | { success: true; version: number }
+  | { success: false; error: string };
+
+/**
+ * Validate a single flag/block pair. Returns an error message or null.
+ */
+function validateThresholds(
+  label: string,
+  thresholds: CategoryThresholds | undefined
+): string | null {
+  if (!thresholds) return null;
+
+  for (const action of ["flag", "block"] as const) {
+    const value = thresholds[action];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || isNaN(value) || value < 0 || value > 1) {
+      return `${label} ${action} threshold must be a number between 0 and 1`;
+    }
+  }
+
+  if (
+    thresholds.flag !== undefined &&
+    thresholds.block !== undefined &&
+    thresholds.block < thresholds.flag
+  ) {
+    return `${label} block threshold must be greater than or equal to its flag threshold`;
+  }
+
+  return null;
+}
+
+/**
+ * Validate the overall and per-category thresholds of the base policy or of
+ * one source override, dropping empty entries.
+ */
+function cleanPolicyThresholds(
+  labelPrefix: string,
+  rules: PolicyThresholds | undefined
+): { error: string } | { thresholds: PolicyThresholds } {
+  const overallError = validateThresholds(
+    `${labelPrefix}Overall`,
+    rules?.overall
+  );
+  if (overallError) return { error: overallError };
+
+  const categories: PolicyThresholds["categories"] = {};
+  for (const category of POLICY_CATEGORIES) {
+    const thresholds = rules?.categories?.[category];
+    const error = validateThresholds(`${labelPrefix}${category}`, thresholds);
+    if (error) return { error };
+    if (
+      thresholds &&
+      (thresholds.flag !== undefined || thresholds.block !== undefined)
+    ) {
+      categories[category] = thresholds;
+    }
+  }
+
+  return { thresholds: { overall: rules?.overall ?? {}, categories } };
+}
+
+/**
+ * Save the organization's moderation policy as a new version.
+ * Previous versions are kept so past decisions can still be explained.
+ */
+export async function savePolicy(data: {
+  defaultModel: string;
+  rules: PolicyConfig;
+}): Promise<SavePolicyResult> {
+  try {
+    const org = await getCurrentOrganization();
+
+    if (!org) {
+      return { success: false, error: "Organization not found" };
+    }
+
+    if (!Object.prototype.hasOwnProperty.call(MODEL_MAP, data.defaultModel)) {
+      return { success: false, error: "Unknown default model" };
+    }
+
+    if (!(await getPlanModels(org.id)).includes(data.defaultModel)) {
+      return {
+        success: false,
+        error: "Default model is not included in your plan",
+      };
+    }
+
+    const base = cleanPolicyThresholds("", data.rules);
+    if ("error" in base) return { success: false, error: base.error };
+    const rules: PolicyConfig = base.thresholds;
+
+    // Per-source overrides, e.g. stricter thresholds for usernames
+    const sourceEntries = Object.entries(data.rules.sources ?? {});
+    if (sourceEntries.length > MAX_POLICY_SOURCES) {
+      return {
+        success: false,
+        error: `A policy can have at most ${MAX_POLICY_SOURCES} source overrides`,
+      };
+    }
+    if (sourceEntries.length > 0) {
+      rules.sources = {};
+      for (const [source, override] of sourceEntries) {
+        if (!SOURCE_PATTERN.test(source)) {
+          return {
+            success: false,
+            error: `Invalid source "${source}": use lowercase letters, digits, "_", "-" or "." (up to 64 characters)`,
+          };
+        }
+        const cleaned = cleanPolicyThresholds(`${source}: `, override);
+        if ("error" in cleaned) return { success: false, error: cleaned.error };
+        rules.sources[source] = cleaned.thresholds;
+      }
+    }
+
+    // Repeat offenders: how much lower the thresholds are per risk tier
+    const escalation: EscalationMargins = {};
+    for (const tier of ESCALATION_TIERS) {
+      const margin = data.rules.escalation?.[tier];
+      if (margin === undefined) continue;
+      if (
+        typeof margin !== "number" ||
+        isNaN(margin) ||
+        margin < 0 ||
+        margin > 1
+      ) {
+        return {
+          success: false,
+          error: `The ${tier} risk margin must be a number between 0 and 1`,
+        };
+      }
+      if (margin > 0) escalation[tier] = margin;
+    }
+    if (Object.keys(escalation).length > 0) rules.escalation = escalation;
+
+    const latest = await prisma.moderationPolicy.findFirst({
+      where: { orgId: org.id },
+      orderBy: { version: "desc" },
+      select: { version: true },
+    });
+    const version = (latest?.version ?? 0) + 1;
+
+    await prisma.moderationPolicy.create({
+      data: {
+        orgId: org.id,
+        version,
+        defaultModel: data.defaultModel,
+        rules: rules as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    revalidatePath("/dashboard/policy");
+
+    return { success: true, version };
+  } catch (error: unknown) {
+    // Unique (orgId, version) clash: someone else saved at the same time
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2002"
+    ) {
+      return {
+        success: false,
+        error: "The policy was changed by someone else. Reload and try again.",
+      };
+    }
+
+    console.error("Error saving moderation policy:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to save policy",
+    };
+  }
+}
+
+export type UpdateNormalizationResult =
+  | { success: true }
+  | { success: false; error: string };
+
+/**
+ * Update organization's normalizeInput setting
+ */
+export async function updateOrgNormalizationSetting(
+  normalizeInput: boolean
+): Promise<UpdateNormalizationResult> {
+  try {
+    const org = await getCurrentOrganization();
+
+    if (!org) {
+      return { success: false, error: "Organization not found" };
+    }
+
+    await prisma.organization.update({
+      where: { id: org.id },
+      data: { normalizeInput },
+    });
+
+    revalidatePath("/dashboard/policy");
+
+    return { success: true };
+  } catch (error: unknown) {
+    console.error("Error updating organization normalization setting:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to update normalization setting",
+    };
+  }
+}
+
+export type UpdateFailureModeResult =
+  | { success: true }
+  | { success: false; error: string };
+
+/**
+ * Update organization's failureMode setting (answer when every provider is down)
+ */
+export async function updateOrgFailureMode(
+  failureMode: FailureMode
+): Promise<UpdateFailureModeResult> {
+  try {
+    const org = await getCurrentOrganization();
+
+    if (!org) {
+      return { success: false, error: "Organization not found" };
+    }
+
+    if (!FAILURE_MODES.includes(failureMode)) {
+      return { success: false, error: "Unknown failure mode" };
+    }
+
+    await prisma.organization.update({
+      where: { id: org.id },
+      data: { failureMode },
+    });
+
+    revalidatePath("/dashboard/policy");
+
+    return { success: true };
+  } catch (error: unknown) {
+    console.error("Error updating organization failure mode:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to update failure mode",
+    };
+  }
+}
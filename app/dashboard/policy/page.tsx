@@ -0,0 +1,160 @@
+// app/dashboard/policy/page.tsx
+
+import { prisma } from "@/lib/db";
+import { getCurrentOrganization } from "@/lib/auth";
+import { getActivePolicy } from "@/lib/policies";
+import { MODEL_MAP } from "@/lib/moderation/router";
+import { POLICY_CATEGORIES } from "@/lib/moderation/policy";
+import { PolicyForm } from "./_components/policy-form";
+import { NormalizationToggle } from "./_components/normalization-toggle";
+import { FailureModeSelect } from "./_components/failure-mode-select";
+import { FAILURE_MODES, type FailureMode } from "@/lib/moderation-service";
+
+export default async function PolicyPage() {
+  const org = await getCurrentOrganization();
+
+  if (!org) {
+    return (
+      <div className="flex min-h-[60vh] items-center justify-center">
+        <p className="text-gray-600">
+          Unable to load organization. Please try refreshing.
+        </p>
+      </div>
+    );
+  }
+
+  const [policy, versions] = await Promise.all([
+    getActivePolicy(org.id),
+    prisma.moderationPolicy.findMany({
+      where: { orgId: org.id },
+      orderBy: { version: "desc" },
+      take: 10,
+      select: { id: true, version: true, defaultModel: true, createdAt: true },
+    }),
+  ]);
+
+  return (
+    <div className="w-full">
+      {/* Header */}
+      <header className="mb-6">
+        <h1 className="text-xl font-semibold tracking-tight">
+          Moderation Policy
+        </h1>
+        <p className="mt-1 text-xs text-slate-600">
+          Set the scores at which CleanMod flags or blocks content for{" "}
+          <span className="font-medium text-slate-800">{org.name}</span>. Leave
+          a field empty to ignore it. Every save creates a new version, and each
+          moderation log records the version it was decided with.
+        </p>
+      </header>
+
+      {/* Policy Card */}
+      <section className="mb-6">
+        <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+          <div className="mb-4 flex items-center justify-between gap-2">
+            <h2 className="text-sm font-semibold tracking-tight">Thresholds</h2>
+            <span className="rounded-full bg-slate-100 px-2 py-0.5 text-xs font-medium text-slate-600">
+              {policy.version === null
+                ? "Built-in default"
+                : `Version ${policy.version}`}
+            </span>
+          </div>
+          <PolicyForm
+            modelKeys={Object.keys(MODEL_MAP)}
+            categories={POLICY_CATEGORIES}
+            initialDefaultModel={policy.defaultModel}
+            initialRules={policy.config}
+          />
+        </div>
+      </section>
+
+      {/* Normalization Card */}
+      <section className="mb-6">
+        <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+          <h2 className="mb-4 text-sm font-semibold tracking-tight">
+            Text Normalization
+          </h2>
+          <NormalizationToggle
+            initialValue={org.normalizeInput}
+            label="Undo obfuscation before moderating"
+          />
+          <p className="mt-3 text-xs text-slate-600">
+            When enabled, CleanMod also moderates a canonical form of each text
+            with zero-width characters, look-alike letters, leetspeak
+            (&ldquo;1d10t&rdquo;), repeated letters and spaced-out letters
+            undone, and keeps the stricter verdict. This adds a second model
+            call for obfuscated text, and log hashes are computed from the
+            canonical form.
+          </p>
+        </div>
+      </section>
+
+      {/* Failure Mode Card */}
+      <section className="mb-6">
+        <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+          <h2 className="mb-4 text-sm font-semibold tracking-tight">
+            Provider Outages
+          </h2>
+          <FailureModeSelect
+            initialValue={
+              FAILURE_MODES.includes(org.failureMode as FailureMode)
+                ? (org.failureMode as FailureMode)
+                : "error"
+            }
+          />
+          <p className="mt-3 text-xs text-slate-600">
+            Each model falls back to secondary providers, ending with a local
+            keyword scorer, before giving up. This setting only applies when
+            every provider is unavailable. Degraded responses are marked with{" "}
+            <code className="rounded bg-slate-100 px-1 py-0.5">
+              &quot;degraded&quot;: true
+            </code>
+            .
+          </p>
+        </div>
+      </section>
+
+      {/* Version History */}
+      <section>
+        <h2 className="mb-3 text-sm font-semibold tracking-tight">
+          Version History
+        </h2>
+        {versions.length === 0 ? (
+          <div className="rounded-lg border border-dashed border-slate-300 bg-slate-50 p-6 text-center text-sm text-slate-500">
+            No saved versions yet. Requests use the built-in default policy.
+          </div>
+        ) : (
+          <div className="overflow-hidden rounded-xl border border-slate-200 bg-white shadow-sm">
+            <table className="min-w-full text-left text-sm">
+              <thead className="bg-slate-50 text-xs uppercase text-slate-500">
+                <tr>
+                  <th className="px-4 py-3">Version</th>
+                  <th className="px-4 py-3">Default Model</th>
+                  <th className="px-4 py-3">Saved</th>
+                </tr>
+              </thead>
+              <tbody>
+                {versions.map((version) => (
+                  <tr
+                    key={version.id}
+                    className="border-t border-slate-100 hover:bg-slate-50/70"
+                  >
+                    <td className="px-4 py-2 text-xs text-slate-800">
+                      v{version.version}
+                    </td>
+                    <td className="px-4 py-2 text-xs text-slate-700">
+                      {version.defaultModel}
+                    </td>
+                    <td className="px-4 py-2 text-xs text-slate-600">
+                      {version.createdAt.toISOString()}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
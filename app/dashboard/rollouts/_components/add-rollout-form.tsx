@@ -0,0 +1,148 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { addRollout } from "../actions";
+import type { RolloutBucketBy } from "@/lib/moderation/rollout";
+
+// <select> values are strings; this one stands for "every API key"
+const ALL_KEYS = "";
+
+type AddRolloutFormProps = {
+  modelKeys: string[];
+  apiKeys: { id: string; name: string }[];
+};
+
+export function AddRolloutForm({ modelKeys, apiKeys }: AddRolloutFormProps) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [apiKeyId, setApiKeyId] = useState(ALL_KEYS);
+  const [fromModel, setFromModel] = useState(modelKeys[0] ?? "");
+  const [toModel, setToModel] = useState(modelKeys[1] ?? "");
+  const [percentage, setPercentage] = useState("1");
+  const [bucketBy, setBucketBy] = useState<RolloutBucketBy>("input");
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    startTransition(async () => {
+      const result = await addRollout({
+        apiKeyId: apiKeyId === ALL_KEYS ? null : apiKeyId,
+        fromModel,
+        toModel,
+        percentage: Number(percentage),
+        bucketBy,
+      });
+
+      if (!result.success) {
+        setError(result.error);
+      }
+    });
+  };
+
+  const selectClassName =
+    "rounded-lg border border-slate-300 px-2 py-2 text-xs text-slate-900 focus:border-emerald-500 focus:outline-none focus:ring-1 focus:ring-emerald-500 disabled:bg-slate-50 disabled:text-slate-500";
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="flex flex-wrap items-end gap-2">
+        <div>
+          <label className="block text-xs font-medium text-slate-700 mb-1">
+            Scope
+          </label>
+          <select
+            value={apiKeyId}
+            onChange={(e) => setApiKeyId(e.target.value)}
+            disabled={isPending}
+            className={selectClassName}
+          >
+            <option value={ALL_KEYS}>All API keys</option>
+            {apiKeys.map((key) => (
+              <option key={key.id} value={key.id}>
+                {key.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-700 mb-1">
+            From model
+          </label>
+          <select
+            value={fromModel}
+            onChange={(e) => setFromModel(e.target.value)}
+            disabled={isPending}
+            className={selectClassName}
+          >
+            {modelKeys.map((key) => (
+              <option key={key} value={key}>
+                {key}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-700 mb-1">
+            To model
+          </label>
+          <select
+            value={toModel}
+            onChange={(e) => setToModel(e.target.value)}
+            disabled={isPending}
+            className={selectClassName}
+          >
+            {modelKeys.map((key) => (
+              <option key={key} value={key}>
+                {key}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-700 mb-1">
+            Traffic %
+          </label>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            step="any"
+            value={percentage}
+            onChange={(e) => setPercentage(e.target.value)}
+            disabled={isPending}
+            className="w-20 rounded-lg border border-slate-300 px-3 py-2 text-xs text-slate-900 focus:border-emerald-500 focus:outline-none focus:ring-1 focus:ring-emerald-500 disabled:bg-slate-50 disabled:text-slate-500"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-700 mb-1">
+            Bucket by
+          </label>
+          <select
+            value={bucketBy}
+            onChange={(e) => setBucketBy(e.target.value as RolloutBucketBy)}
+            disabled={isPending}
+            className={selectClassName}
+          >
+            <option value="input">Input text</option>
+            <option value="user">End user</option>
+          </select>
+        </div>
+        <button
+          type="submit"
+          disabled={isPending || fromModel === toModel || percentage === ""}
+          className="rounded-lg bg-slate-900 px-4 py-2 text-xs font-medium text-white hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isPending ? "Adding..." : "Start Rollout"}
+        </button>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-rose-50 border border-rose-200 px-3 py-2">
+          <p className="text-xs text-rose-600" role="alert">
+            {error}
+          </p>
+        </div>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { deleteRollout } from "../actions";
+
+type DeleteRolloutButtonProps = {
+  rolloutId: string;
+};
+
+export function DeleteRolloutButton({ rolloutId }: DeleteRolloutButtonProps) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDelete = () => {
+    if (
+      !confirm(
+        "Are you sure you want to delete this rollout? All traffic goes back to the original model."
+      )
+    ) {
+      return;
+    }
+
+    setError(null);
+    startTransition(async () => {
+      const result = await deleteRollout(rolloutId);
+      if (!result.success) {
+        setError(result.error);
+      }
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-1">
+      <button
+        onClick={handleDelete}
+        disabled={isPending}
+        className="rounded bg-rose-50 px-2 py-1 text-xs font-medium text-rose-700 hover:bg-rose-100 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isPending ? "Deleting..." : "Delete"}
+      </button>
+      {error && (
+        <span className="text-xs text-rose-600" title={error}>
+          Failed
+        </span>
+      )}
+    </div>
+  );
+}
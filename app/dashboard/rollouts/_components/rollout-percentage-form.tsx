@@ -0,0 +1,62 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { updateRolloutPercentage } from "../actions";
+
+type RolloutPercentageFormProps = {
+  rolloutId: string;
+  initialPercentage: number;
+};
+
+export function RolloutPercentageForm({
+  rolloutId,
+  initialPercentage,
+}: RolloutPercentageFormProps) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [value, setValue] = useState(String(initialPercentage));
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    startTransition(async () => {
+      const result = await updateRolloutPercentage(rolloutId, Number(value));
+      if (!result.success) {
+        setError(result.error);
+      }
+    });
+  };
+
+  const unchanged = Number(value) === initialPercentage;
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-1">
+      <div className="flex items-center gap-1">
+        <input
+          type="number"
+          min={0}
+          max={100}
+          step="any"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          disabled={isPending}
+          className="w-20 rounded-lg border border-slate-300 px-2 py-1 text-xs text-slate-900 focus:border-emerald-500 focus:outline-none focus:ring-1 focus:ring-emerald-500 disabled:bg-slate-50 disabled:text-slate-500"
+        />
+        <span className="text-xs text-slate-500">%</span>
+        <button
+          type="submit"
+          disabled={isPending || unchanged || value === ""}
+          className="rounded bg-slate-900 px-2 py-1 text-xs font-medium text-white hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isPending ? "Saving..." : "Save"}
+        </button>
+      </div>
+      {error && (
+        <p className="text-xs text-rose-600" role="alert">
+          {error}
+        </p>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,192 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { prisma } from "@/lib/db";
+import { getCurrentOrganization } from "@/lib/auth";
+import { MODEL_MAP } from "@/lib/moderation/router";
+import { getPlanModels } from "@/lib/usage";
+import {
+  ROLLOUT_BUCKET_BY,
+  type RolloutBucketBy,
+} from "@/lib/moderation/rollout";
+
+export type RolloutActionResult =
+  | { success: true }
+  | { success: false; error: string };
+
+function validatePercentage(percentage: number): string | null {
+  if (
+    typeof percentage !== "number" ||
+    isNaN(percentage) ||
+    percentage < 0 ||
+    percentage > 100
+  ) {
+    return "Percentage must be a number between 0 and 100";
+  }
+  return null;
+}
+
+/**
+ * Start rolling traffic from one model to another, for the whole
+ * organization or a single API key
+ */
+export async function addRollout(data: {
+  apiKeyId: string | null;
+  fromModel: string;
+  toModel: string;
+  percentage: number;
+  bucketBy: RolloutBucketBy;
+}): Promise<RolloutActionResult> {
+  try {
+    const org = await getCurrentOrganization();
+
+    if (!org) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    for (const model of [data.fromModel, data.toModel]) {
+      if (!Object.prototype.hasOwnProperty.call(MODEL_MAP, model)) {
+        return { success: false, error: `Unknown model "${model}"` };
+      }
+    }
+
+    if (data.fromModel === data.toModel) {
+      return { success: false, error: "Pick two different models" };
+    }
+
+    if (!(await getPlanModels(org.id)).includes(data.toModel)) {
+      return {
+        success: false,
+        error: `Your plan does not include model "${data.toModel}"`,
+      };
+    }
+
+    const percentageError = validatePercentage(data.percentage);
+    if (percentageError) return { success: false, error: percentageError };
+
+    if (!ROLLOUT_BUCKET_BY.includes(data.bucketBy)) {
+      return { success: false, error: "Unknown bucketing" };
+    }
+
+    if (data.apiKeyId !== null) {
+      const apiKey = await prisma.apiKey.findFirst({
+        where: { id: data.apiKeyId, orgId: org.id },
+        select: { id: true },
+      });
+      if (!apiKey) {
+        return { success: false, error: "API key not found" };
+      }
+    }
+
+    // One rollout per model and scope, so assignment is unambiguous
+    const existing = await prisma.modelRollout.findFirst({
+      where: {
+        orgId: org.id,
+        apiKeyId: data.apiKeyId,
+        fromModel: data.fromModel,
+      },
+      select: { id: true },
+    });
+    if (existing) {
+      return {
+        success: false,
+        error: `A rollout from ${data.fromModel} already exists for this scope`,
+      };
+    }
+
+    await prisma.modelRollout.create({
+      data: {
+        orgId: org.id,
+        apiKeyId: data.apiKeyId,
+        fromModel: data.fromModel,
+        toModel: data.toModel,
+        percentage: data.percentage,
+        bucketBy: data.bucketBy,
+      },
+    });
+
+    revalidatePath("/dashboard/rollouts");
+
+    return { success: true };
+  } catch (error: unknown) {
+    console.error("Error adding model rollout:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to add rollout",
+    };
+  }
+}
+
+/**
+ * Change the share of traffic served by a rollout's new model
+ */
+export async function updateRolloutPercentage(
+  rolloutId: string,
+  percentage: number
+): Promise<RolloutActionResult> {
+  try {
+    const org = await getCurrentOrganization();
+
+    if (!org) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const percentageError = validatePercentage(percentage);
+    if (percentageError) return { success: false, error: percentageError };
+
+    // Scope by org so one org can't change another's rollouts
+    const { count } = await prisma.modelRollout.updateMany({
+      where: { id: rolloutId, orgId: org.id },
+      data: { percentage },
+    });
+
+    if (count === 0) {
+      return { success: false, error: "Rollout not found" };
+    }
+
+    revalidatePath("/dashboard/rollouts");
+
+    return { success: true };
+  } catch (error: unknown) {
+    console.error("Error updating model rollout:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to update rollout",
+    };
+  }
+}
+
+/**
+ * Delete a rollout. Its logs keep the rollout id and arm.
+ */
+export async function deleteRollout(
+  rolloutId: string
+): Promise<RolloutActionResult> {
+  try {
+    const org = await getCurrentOrganization();
+
+    if (!org) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    const { count } = await prisma.modelRollout.deleteMany({
+      where: { id: rolloutId, orgId: org.id },
+    });
+
+    if (count === 0) {
+      return { success: false, error: "Rollout not found" };
+    }
+
+    revalidatePath("/dashboard/rollouts");
+
+    return { success: true };
+  } catch (error: unknown) {
+    console.error("Error deleting model rollout:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error ? error.message : "Failed to delete rollout",
+    };
+  }
+}
@@ -0,0 +1,181 @@
+// app/dashboard/rollouts/page.tsx
+
+import { prisma } from "@/lib/db";
+import { getCurrentOrganization } from "@/lib/auth";
+import { MODEL_MAP } from "@/lib/moderation/router";
+import { getRolloutArmStats, type ArmStats } from "@/lib/rollouts";
+import type { RolloutArm } from "@/lib/moderation/rollout";
+import type { ModerationDecision } from "@/lib/moderation/types";
+import { AddRolloutForm } from "./_components/add-rollout-form";
+import { RolloutPercentageForm } from "./_components/rollout-percentage-form";
+import { DeleteRolloutButton } from "./_components/delete-rollout-button";
+
+const DECISIONS: ModerationDecision[] = ["allow", "flag", "block"];
+
+const DECISION_TEXT_CLASS: Record<ModerationDecision, string> = {
+  allow: "text-emerald-700",
+  flag: "text-amber-700",
+  block: "text-rose-700",
+};
+
+const ARM_LABELS: Record<RolloutArm, string> = {
+  control: "Control",
+  treatment: "Treatment",
+};
+
+function formatRate(count: number, total: number): string {
+  return total > 0 ? `${((count / total) * 100).toFixed(1)}%` : "—";
+}
+
+function ArmRates({ label, stats }: { label: string; stats: ArmStats }) {
+  return (
+    <div className="text-xs">
+      <span className="font-medium text-slate-800">{label}</span>{" "}
+      <span className="text-slate-500">
+        ({stats.total.toLocaleString()} request{stats.total === 1 ? "" : "s"})
+      </span>
+      <div className="mt-0.5 flex gap-3">
+        {DECISIONS.map((decision) => (
+          <span key={decision} className={DECISION_TEXT_CLASS[decision]}>
+            {decision} {formatRate(stats.decisions[decision], stats.total)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export default async function RolloutsPage() {
+  const org = await getCurrentOrganization();
+
+  if (!org) {
+    return (
+      <div className="flex min-h-[60vh] items-center justify-center">
+        <p className="text-gray-600">
+          Unable to load organization. Please try refreshing.
+        </p>
+      </div>
+    );
+  }
+
+  const [rollouts, apiKeys] = await Promise.all([
+    prisma.modelRollout.findMany({
+      where: { orgId: org.id },
+      orderBy: { createdAt: "asc" },
+      include: { apiKey: { select: { name: true } } },
+    }),
+    prisma.apiKey.findMany({
+      where: { orgId: org.id, isActive: true },
+      orderBy: { createdAt: "asc" },
+      select: { id: true, name: true },
+    }),
+  ]);
+
+  const armStats = await getRolloutArmStats(
+    org.id,
+    rollouts.map((rollout) => rollout.id)
+  );
+
+  return (
+    <div className="w-full">
+      {/* Header */}
+      <header className="mb-6">
+        <h1 className="text-xl font-semibold tracking-tight">Model Rollouts</h1>
+        <p className="mt-1 text-xs text-slate-600">
+          Move traffic from one model to another gradually (for example 1%, then
+          10%, then 100%). Requests are assigned to an arm by a hash of the
+          input text or of{" "}
+          <code className="rounded bg-slate-100 px-1 py-0.5 text-[11px]">
+            context.user_id
+          </code>
+          , so the same input or end user always gets the same model. An API
+          key&apos;s own rollout takes precedence over an organization-wide one.
+          Compare decision rates per arm below, then raise the percentage to
+          promote or delete the rollout to roll back.
+        </p>
+      </header>
+
+      {/* Add Rollout */}
+      <section className="mb-6">
+        <div className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+          <h2 className="mb-3 text-sm font-semibold tracking-tight">
+            New Rollout
+          </h2>
+          <AddRolloutForm
+            modelKeys={Object.keys(MODEL_MAP)}
+            apiKeys={apiKeys}
+          />
+        </div>
+      </section>
+
+      {/* Rollouts */}
+      <section>
+        <h2 className="mb-3 text-sm font-semibold tracking-tight">
+          Active Rollouts
+        </h2>
+        {rollouts.length === 0 ? (
+          <div className="rounded-lg border border-dashed border-slate-300 bg-slate-50 p-6 text-center text-sm text-slate-500">
+            No rollouts. Every request is served by the model it asks for (or
+            your policy&apos;s default model).
+          </div>
+        ) : (
+          <div className="overflow-hidden rounded-xl border border-slate-200 bg-white shadow-sm">
+            <table className="min-w-full text-left text-sm">
+              <thead className="bg-slate-50 text-xs uppercase text-slate-500">
+                <tr>
+                  <th className="px-4 py-3">Scope</th>
+                  <th className="px-4 py-3">Models</th>
+                  <th className="px-4 py-3">Traffic on new model</th>
+                  <th className="px-4 py-3">Decision rates</th>
+                  <th className="px-4 py-3">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rollouts.map((rollout) => (
+                  <tr
+                    key={rollout.id}
+                    className="border-t border-slate-100 hover:bg-slate-50/70"
+                  >
+                    <td className="px-4 py-2 align-top text-xs text-slate-700">
+                      {rollout.apiKey ? rollout.apiKey.name : "All API keys"}
+                      <div className="text-slate-500">
+                        by {rollout.bucketBy === "user" ? "end user" : "input"}
+                      </div>
+                    </td>
+                    <td className="px-4 py-2 align-top text-xs text-slate-700">
+                      {rollout.fromModel} → {rollout.toModel}
+                    </td>
+                    <td className="px-4 py-2 align-top text-xs">
+                      <RolloutPercentageForm
+                        rolloutId={rollout.id}
+                        initialPercentage={rollout.percentage}
+                      />
+                    </td>
+                    <td className="px-4 py-2 align-top">
+                      <div className="space-y-2">
+                        {(["control", "treatment"] as const).map((arm) => (
+                          <ArmRates
+                            key={arm}
+                            label={`${ARM_LABELS[arm]} (${
+                              arm === "control"
+                                ? rollout.fromModel
+                                : rollout.toModel
+                            })`}
+                            stats={armStats[rollout.id][arm]}
+                          />
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-4 py-2 align-top text-xs">
+                      <DeleteRolloutButton rolloutId={rollout.id} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
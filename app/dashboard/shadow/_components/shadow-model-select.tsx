@@ -0,0 +1,70 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { updateOrgShadowModel } from "../actions";
+
+// <select> values are strings; this one stands for "no shadow model"
+const OFF = "";
+
+type ShadowModelSelectProps = {
+  modelKeys: string[];
+  initialValue: string | null;
+};
+
+export function ShadowModelSelect({
+  modelKeys,
+  initialValue,
+}: ShadowModelSelectProps) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [value, setValue] = useState(initialValue ?? OFF);
+
+  const handleChange = (newValue: string) => {
+    const previous = value;
+    setError(null);
+    setValue(newValue);
+    startTransition(async () => {
+      const result = await updateOrgShadowModel(
+        newValue === OFF ? null : newValue
+      );
+      if (!result.success) {
+        setError(result.error);
+        // Revert on error
+        setValue(previous);
+      }
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex items-center gap-3">
+        <label
+          htmlFor="shadowModel"
+          className="text-sm font-medium text-slate-700"
+        >
+          Candidate model
+        </label>
+        <select
+          id="shadowModel"
+          value={value}
+          onChange={(e) => handleChange(e.target.value)}
+          disabled={isPending}
+          className="rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-900 focus:border-emerald-500 focus:outline-none focus:ring-1 focus:ring-emerald-500 disabled:bg-slate-50 disabled:text-slate-500"
+        >
+          <option value={OFF}>Off</option>
+          {modelKeys.map((key) => (
+            <option key={key} value={key}>
+              {key}
+            </option>
+          ))}
+        </select>
+        {isPending && <span className="text-xs text-slate-500">Saving...</span>}
+      </div>
+      {error && (
+        <p className="text-xs text-rose-600" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
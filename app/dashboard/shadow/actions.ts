@@ -0,0 +1,58 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { prisma } from "@/lib/db";
+import { getCurrentOrganization } from "@/lib/auth";
+import { MODEL_MAP } from "@/lib/moderation/router";
+import { getPlanModels } from "@/lib/usage";
+
+export type UpdateShadowModelResult =
+  | { success: true }
+  | { success: false; error: string };
+
+/**
+ * Update organization's shadowModel setting (null turns shadow mode off)
+ */
+export async function updateOrgShadowModel(
+  shadowModel: string | null
+): Promise<UpdateShadowModelResult> {
+  try {
+    const org = await getCurrentOrganization();
+
+    if (!org) {
+      return { success: false, error: "Organization not found" };
+    }
+
+    if (
+      shadowModel !== null &&
+      !Object.prototype.hasOwnProperty.call(MODEL_MAP, shadowModel)
+    ) {
+      return { success: false, error: "Unknown model" };
+    }
+
+    if (
+      shadowModel !== null &&
+      !(await getPlanModels(org.id)).includes(shadowModel)
+    ) {
+      return { success: false, error: "Model is not included in your plan" };
+    }
+
+    await prisma.organization.update({
+      where: { id: org.id },
+      data: { shadowModel },
+    });
+
+    revalidatePath("/dashboard/shadow");
+
+    return { success: true };
+  } catch (error: unknown) {
+    console.error("Error updating organization shadow model:", error);
+    return {
+      success: false,
+      error:
+        error instanceof Error
+          ? error.message
+          : "Failed to update shadow model",
+    };
+  }
+}
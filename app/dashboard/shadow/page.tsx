@@ -0,0 +1,324 @@
+// app/dashboard/shadow/page.tsx
+
+import Link from "next/link";
+import { prisma } from "@/lib/db";
+import { getCurrentOrganization } from "@/lib/auth";
+import { MODEL_MAP } from "@/lib/moderation/router";
+import { getShadowReport } from "@/lib/shadow-mode";
+import type { ModerationDecision } from "@/lib/moderation/types";
+import { ShadowModelSelect } from "./_components/shadow-model-select";
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+const DECISIONS: ModerationDecision[] = ["allow", "flag", "block"];
+const RANGE_OPTIONS = [
+  { value: undefined, label: "All time" },
+  { value: "24h", label: "Last 24h" },
+  { value: "7d", label: "Last 7 days" },
+  { value: "30d", label: "Last 30 days" },
+];
+const RANGE_DAYS: Record<string, number> = { "24h": 1, "7d": 7, "30d": 30 };
+
+type SearchParams = {
+  [key: string]: string | string[] | undefined;
+};
+
+type ShadowPageProps = {
+  searchParams?: Promise<SearchParams> | SearchParams;
+};
+
+function buildQueryString(model: string | undefined, range?: string): string {
+  const params = new URLSearchParams();
+  if (model) params.set("model", model);
+  if (range) params.set("range", range);
+  const query = params.toString();
+  return query ? `/dashboard/shadow?${query}` : "/dashboard/shadow";
+}
+
+function getDateRangeFromFilter(range?: string): Date | null {
+  if (!range || !RANGE_DAYS[range]) return null;
+  return new Date(Date.now() - RANGE_DAYS[range] * DAY_IN_MS);
+}
+
+function decisionBadgeClass(decision: string): string {
+  return (
+    "inline-flex items-center rounded-full px-2 py-0.5 text-xs font-medium " +
+    (decision === "block"
+      ? "bg-rose-100 text-rose-700"
+      : decision === "flag"
+      ? "bg-amber-100 text-amber-700"
+      : "bg-emerald-100 text-emerald-700")
+  );
+}
+
+function formatScore(score: number | null): string {
+  return score !== null ? score.toFixed(3) : "—";
+}
+
+export default async function ShadowPage({ searchParams }: ShadowPageProps) {
+  const org = await getCurrentOrganization();
+
+  if (!org) {
+    return (
+      <div className="flex min-h-[60vh] items-center justify-center">
+        <p className="text-gray-600">
+          Unable to load organization. Please try refreshing.
+        </p>
+      </div>
+    );
+  }
+
+  // Await searchParams if it's a Promise (Next.js 15+)
+  const resolvedSearchParams =
+    searchParams instanceof Promise ? await searchParams : searchParams;
+
+  const range = resolvedSearchParams?.range
+    ? String(resolvedSearchParams.range)
+    : undefined;
+  const since = getDateRangeFromFilter(range);
+
+  // Candidates with shadow results, including ones evaluated in the past
+  const modelRows = await prisma.moderationLog.findMany({
+    where: { orgId: org.id, shadowModel: { not: null } },
+    distinct: ["shadowModel"],
+    select: { shadowModel: true },
+    orderBy: { shadowModel: "asc" },
+  });
+  const reportModels = modelRows
+    .map((row) => row.shadowModel)
+    .filter((model): model is string => model !== null);
+
+  const requestedModel = resolvedSearchParams?.model
+    ? String(resolvedSearchParams.model)
+    : undefined;
+  const selectedModel =
+    requestedModel && reportModels.includes(requestedModel)
+      ? requestedModel
+      : org.shadowModel && reportModels.includes(org.shadowModel)
+      ? org.shadowModel
+      : reportModels[0];
+
+  const report = selectedModel
+    ? await getShadowReport(org.id, selectedModel, since)
+    : null;
+
+  const showPreview = org.storeInputPreview;
+
+  return (
+    <div className="w-full">
+      {/* Header */}
+      <header className="mb-6">
+        <h1 className="text-xl font-semibold tracking-tight">Shadow Mode</h1>
+        <p className="mt-1 text-xs text-slate-600">
+          Evaluate a candidate model on live traffic before switching to it.
+          After each response, CleanMod also moderates the text with the
+          candidate and stores its verdict next to the production one. The
+          candidate never changes responses and does not use quota.
+        </p>
+      </header>
+
+      {/* Candidate Card */}
+      <section className="mb-6">
+        <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+          <h2 className="mb-4 text-sm font-semibold tracking-tight">
+            Candidate
+          </h2>
+          <ShadowModelSelect
+            modelKeys={Object.keys(MODEL_MAP)}
+            initialValue={org.shadowModel}
+          />
+          <p className="mt-3 text-xs text-slate-600">
+            Texts already moderated with the candidate, texts in a language it
+            does not support, and responses served while providers were down are
+            not shadowed. The candidate must be a model your plan includes.
+          </p>
+        </div>
+      </section>
+
+      {!report || !selectedModel ? (
+        <div className="rounded-lg border border-dashed border-slate-300 bg-slate-50 p-6 text-center text-sm text-slate-500">
+          No shadow results yet. Pick a candidate model and make some moderation
+          requests to see the comparison here.
+        </div>
+      ) : (
+        <>
+          {/* Filters */}
+          <section className="mb-6 flex flex-wrap items-center gap-3">
+            {reportModels.length > 1 && (
+              <div className="flex items-center gap-2">
+                <label className="text-xs font-medium text-slate-700">
+                  Candidate:
+                </label>
+                <div className="flex gap-1 rounded-lg border border-slate-200 bg-white p-1">
+                  {reportModels.map((model) => (
+                    <Link
+                      key={model}
+                      href={buildQueryString(model, range)}
+                      className={`rounded px-2 py-1 text-xs font-medium transition-colors ${
+                        model === selectedModel
+                          ? "bg-slate-900 text-white"
+                          : "text-slate-600 hover:bg-slate-100"
+                      }`}
+                    >
+                      {model}
+                    </Link>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center gap-2">
+              <label className="text-xs font-medium text-slate-700">
+                Range:
+              </label>
+              <div className="flex gap-1 rounded-lg border border-slate-200 bg-white p-1">
+                {RANGE_OPTIONS.map(({ value, label }) => (
+                  <Link
+                    key={value || "all"}
+                    href={buildQueryString(selectedModel, value)}
+                    className={`rounded px-2 py-1 text-xs font-medium transition-colors ${
+                      range === value
+                        ? "bg-slate-900 text-white"
+                        : "text-slate-600 hover:bg-slate-100"
+                    }`}
+                  >
+                    {label}
+                  </Link>
+                ))}
+              </div>
+            </div>
+          </section>
+
+          {/* Summary */}
+          <section className="mb-6 grid gap-4 md:grid-cols-2">
+            <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+              <p className="text-xs font-medium uppercase text-slate-500">
+                Agreement with {selectedModel}
+              </p>
+              <p className="mt-2 text-2xl font-semibold text-slate-900">
+                {report.agreementRate === null
+                  ? "—"
+                  : `${(report.agreementRate * 100).toFixed(1)}%`}
+              </p>
+              <p className="mt-1 text-xs text-slate-500">
+                {report.agreed.toLocaleString()} of{" "}
+                {report.total.toLocaleString()} shadowed texts got the same
+                decision
+              </p>
+            </div>
+
+            <div className="rounded-xl border border-slate-200 bg-white p-6 shadow-sm">
+              <p className="mb-3 text-xs font-medium uppercase text-slate-500">
+                Decision shift
+              </p>
+              <table className="min-w-full text-left text-sm">
+                <thead className="text-xs text-slate-500">
+                  <tr>
+                    <th className="py-1 pr-4 font-medium">Decision</th>
+                    <th className="py-1 pr-4 font-medium">Production</th>
+                    <th className="py-1 pr-4 font-medium">Candidate</th>
+                    <th className="py-1 font-medium">Change</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {DECISIONS.map((decision) => {
+                    const { production, shadow } =
+                      report.decisionCounts[decision];
+                    const change = shadow - production;
+                    return (
+                      <tr key={decision} className="border-t border-slate-100">
+                        <td className="py-1.5 pr-4 text-xs">
+                          <span className={decisionBadgeClass(decision)}>
+                            {decision}
+                          </span>
+                        </td>
+                        <td className="py-1.5 pr-4 text-xs text-slate-700">
+                          {production.toLocaleString()}
+                        </td>
+                        <td className="py-1.5 pr-4 text-xs text-slate-700">
+                          {shadow.toLocaleString()}
+                        </td>
+                        <td
+                          className={`py-1.5 text-xs font-medium ${
+                            change > 0
+                              ? "text-rose-600"
+                              : change < 0
+                              ? "text-emerald-600"
+                              : "text-slate-500"
+                          }`}
+                        >
+                          {change > 0 ? `+${change}` : change}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          {/* Disagreements */}
+          <section>
+            <h2 className="mb-3 text-sm font-semibold tracking-tight">
+              Recent Disagreements
+            </h2>
+            {report.disagreements.length === 0 ? (
+              <div className="rounded-lg border border-dashed border-slate-300 bg-slate-50 p-6 text-center text-sm text-slate-500">
+                The candidate agreed with every production decision.
+              </div>
+            ) : (
+              <div className="overflow-hidden rounded-xl border border-slate-200 bg-white shadow-sm">
+                <table className="min-w-full text-left text-sm">
+                  <thead className="bg-slate-50 text-xs uppercase text-slate-500">
+                    <tr>
+                      <th className="px-4 py-3">Time</th>
+                      <th className="px-4 py-3">Production</th>
+                      <th className="px-4 py-3">Candidate</th>
+                      <th className="px-4 py-3">Text (preview)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.disagreements.map((row) => (
+                      <tr
+                        key={row.id}
+                        className="border-t border-slate-100 hover:bg-slate-50/70"
+                      >
+                        <td className="px-4 py-2 align-top text-xs text-slate-600">
+                          {row.createdAt.toISOString()}
+                        </td>
+                        <td className="px-4 py-2 align-top text-xs text-slate-700">
+                          <span className={decisionBadgeClass(row.decision)}>
+                            {row.decision}
+                          </span>{" "}
+                          {formatScore(row.overallScore)}
+                        </td>
+                        <td className="px-4 py-2 align-top text-xs text-slate-700">
+                          <span
+                            className={decisionBadgeClass(row.shadowDecision)}
+                          >
+                            {row.shadowDecision}
+                          </span>{" "}
+                          {formatScore(row.shadowOverallScore)}
+                        </td>
+                        <td className="max-w-xs px-4 py-2 align-top text-xs text-slate-700">
+                          {showPreview ? (
+                            <span className="break-words">
+                              {row.inputPreview ?? "[no preview stored]"}
+                            </span>
+                          ) : (
+                            <span className="text-slate-400">
+                              Previews are disabled
+                            </span>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+        </>
+      )}
+    </div>
+  );
+}
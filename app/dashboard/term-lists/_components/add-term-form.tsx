@@ -0,0 +1,148 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { addTermListEntry } from "../actions";
+
+type AddTermFormProps = {
+  categories: string[];
+};
+
+export function AddTermForm({ categories }: AddTermFormProps) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [list, setList] = useState<"block" | "allow">("block");
+  const [matchType, setMatchType] = useState<"exact" | "word" | "regex">(
+    "word"
+  );
+  const [pattern, setPattern] = useState("");
+  const [action, setAction] = useState<"flag" | "block">("flag");
+  const [category, setCategory] = useState("");
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    startTransition(async () => {
+      const result = await addTermListEntry({
+        list,
+        matchType,
+        pattern,
+        action,
+        category: category || null,
+      });
+
+      if (result.success) {
+        setPattern("");
+      } else {
+        setError(result.error);
+      }
+    });
+  };
+
+  const selectClassName =
+    "rounded-lg border border-slate-300 px-2 py-2 text-xs text-slate-900 focus:border-emerald-500 focus:outline-none focus:ring-1 focus:ring-emerald-500 disabled:bg-slate-50 disabled:text-slate-500";
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="flex flex-wrap items-end gap-2">
+        <div>
+          <label className="block text-xs font-medium text-slate-700 mb-1">
+            List
+          </label>
+          <select
+            value={list}
+            onChange={(e) => setList(e.target.value as "block" | "allow")}
+            disabled={isPending}
+            className={selectClassName}
+          >
+            <option value="block">Blocklist</option>
+            <option value="allow">Allowlist</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-700 mb-1">
+            Match
+          </label>
+          <select
+            value={matchType}
+            onChange={(e) =>
+              setMatchType(e.target.value as "exact" | "word" | "regex")
+            }
+            disabled={isPending}
+            className={selectClassName}
+          >
+            <option value="exact">Exact text</option>
+            <option value="word">Whole word</option>
+            <option value="regex">Regex</option>
+          </select>
+        </div>
+        <div className="flex-1 min-w-[12rem]">
+          <label className="block text-xs font-medium text-slate-700 mb-1">
+            Pattern
+          </label>
+          <input
+            type="text"
+            value={pattern}
+            onChange={(e) => setPattern(e.target.value)}
+            disabled={isPending}
+            maxLength={200}
+            placeholder={
+              matchType === "regex" ? "e.g. fr[e3]{2} ?money" : "e.g. clown"
+            }
+            className="w-full rounded-lg border border-slate-300 px-3 py-2 text-xs text-slate-900 placeholder-slate-400 focus:border-emerald-500 focus:outline-none focus:ring-1 focus:ring-emerald-500 disabled:bg-slate-50 disabled:text-slate-500"
+          />
+        </div>
+        {list === "block" ? (
+          <div>
+            <label className="block text-xs font-medium text-slate-700 mb-1">
+              Force
+            </label>
+            <select
+              value={action}
+              onChange={(e) => setAction(e.target.value as "flag" | "block")}
+              disabled={isPending}
+              className={selectClassName}
+            >
+              <option value="flag">Flag</option>
+              <option value="block">Block</option>
+            </select>
+          </div>
+        ) : (
+          <div>
+            <label className="block text-xs font-medium text-slate-700 mb-1">
+              Suppress
+            </label>
+            <select
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              disabled={isPending}
+              className={selectClassName}
+            >
+              <option value="">All categories</option>
+              {categories.map((c) => (
+                <option key={c} value={c}>
+                  {c}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        <button
+          type="submit"
+          disabled={isPending || pattern.trim().length === 0}
+          className="rounded-lg bg-slate-900 px-4 py-2 text-xs font-medium text-white hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isPending ? "Adding..." : "Add Entry"}
+        </button>
+      </div>
+
+      {error && (
+        <div className="rounded-lg bg-rose-50 border border-rose-200 px-3 py-2">
+          <p className="text-xs text-rose-600" role="alert">
+            {error}
+          </p>
+        </div>
+      )}
+    </form>
+  );
+}
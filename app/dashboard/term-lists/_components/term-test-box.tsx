@@ -0,0 +1,81 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { testTermLists } from "../actions";
+import type { TermMatch } from "@/lib/moderation/types";
+
+export function TermTestBox() {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [text, setText] = useState("");
+  const [matches, setMatches] = useState<TermMatch[] | null>(null);
+
+  const handleTest = () => {
+    setError(null);
+    startTransition(async () => {
+      const result = await testTermLists(text);
+      if (result.success) {
+        setMatches(result.matches);
+      } else {
+        setError(result.error);
+        setMatches(null);
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        disabled={isPending}
+        rows={3}
+        maxLength={5000}
+        placeholder="Paste some text to see which entries match"
+        className="w-full rounded-lg border border-slate-300 px-3 py-2 text-sm text-slate-900 placeholder-slate-400 focus:border-emerald-500 focus:outline-none focus:ring-1 focus:ring-emerald-500 disabled:bg-slate-50 disabled:text-slate-500"
+      />
+      <button
+        type="button"
+        onClick={handleTest}
+        disabled={isPending || text.trim().length === 0}
+        className="rounded-lg bg-slate-900 px-4 py-2 text-xs font-medium text-white hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isPending ? "Testing..." : "Test"}
+      </button>
+
+      {error && (
+        <p className="text-xs text-rose-600" role="alert">
+          {error}
+        </p>
+      )}
+
+      {matches !== null &&
+        (matches.length === 0 ? (
+          <p className="text-xs text-slate-500">No entries matched.</p>
+        ) : (
+          <ul className="space-y-1 text-xs">
+            {matches.map((m, i) => (
+              <li key={`${m.id}-${i}`} className="text-slate-700">
+                <span
+                  className={
+                    "mr-2 inline-flex items-center rounded-full px-2 py-0.5 font-medium " +
+                    (m.list === "block"
+                      ? "bg-rose-100 text-rose-700"
+                      : "bg-emerald-100 text-emerald-700")
+                  }
+                >
+                  {m.list === "block"
+                    ? `forces ${m.action}`
+                    : `suppresses ${m.category ?? "all categories"}`}
+                </span>
+                <span className="font-mono">&ldquo;{m.match}&rdquo;</span>{" "}
+                <span className="text-slate-500">
+                  at {m.start}–{m.end} ({m.match_type}: {m.pattern})
+                </span>
+              </li>
+            ))}
+          </ul>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { prisma } from "@/lib/db";
+import { getCurrentOrganization } from "@/lib/auth";
+import { getTermLists } from "@/lib/term-lists";
+import { POLICY_CATEGORIES, type CategoryKey } from "@/lib/moderation/policy";
+import {
+  matchTerms,
+  validateTermPattern,
+  type TermListKind,
+  type TermMatchType,
+} from "@/lib/moderation/termLists";
+import type { TermMatch } from "@/lib/moderation/types";
+
+const MAX_ENTRIES_PER_ORG = 500;
+const MAX_TEST_TEXT_LENGTH = 5_000;
+
+export type TermListActionResult =
+  | { success: true }
+  | { success: false; error: string };
+
+export type TestTermListsResult =
+  | { success: true; matches: TermMatch[] }
+  | { success: false; error: string };
+
+/**
+ * Add a blocklist or allowlist entry for the current organization
+ */
+export async function addTermListEntry(data: {
+  list: TermListKind;
+  matchType: TermMatchType;
+  pattern: string;
+  action?: "flag" | "block";
+  category?: string | null;
+}): Promise<TermListActionResult> {
+  try {
+    const org = await getCurrentOrganization();
+
+    if (!org) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    if (data.list !== "block" && data.list !== "allow") {
+      return { success: false, error: "Unknown list" };
+    }
+
+    const pattern = data.pattern.trim();
+    const patternError = validateTermPattern(data.matchType, pattern);
+    if (patternError) return { success: false, error: patternError };
+
+    if (
+      data.list === "block" &&
+      data.action !== "flag" &&
+      data.action !== "block"
+    ) {
+      return {
+        success: false,
+        error: "Blocklist action must be flag or block",
+      };
+    }
+
+    if (
+      data.list === "allow" &&
+      data.category &&
+      !POLICY_CATEGORIES.includes(data.category as CategoryKey)
+    ) {
+      return { success: false, error: "Unknown category" };
+    }
+
+    const count = await prisma.termListEntry.count({
+      where: { orgId: org.id },
+    });
+    if (count >= MAX_ENTRIES_PER_ORG) {
+      return {
+        success: false,
+        error: `You can have at most ${MAX_ENTRIES_PER_ORG} term list entries`,
+      };
+    }
+
+    await prisma.termListEntry.create({
+      data: {
+        orgId: org.id,
+        list: data.list,
+        matchType: data.matchType,
+        pattern,
+        action: data.list === "block" ? data.action : null,
+        category: data.list === "allow" ? data.category || null : null,
+      },
+    });
+
+    revalidatePath("/dashboard/term-lists");
+
+    return { success: true };
+  } catch (error: unknown) {
+    console.error("Error adding term list entry:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to add entry",
+    };
+  }
+}
+
+/**
+ * Delete a term list entry
+ */
+export async function deleteTermListEntry(
+  entryId: string
+): Promise<TermListActionResult> {
+  try {
+    const org = await getCurrentOrganization();
+
+    if (!org) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    // Scope by org so one org can't delete another's entries
+    const { count } = await prisma.termListEntry.deleteMany({
+      where: { id: entryId, orgId: org.id },
+    });
+
+    if (count === 0) {
+      return { success: false, error: "Entry not found" };
+    }
+
+    revalidatePath("/dashboard/term-lists");
+
+    return { success: true };
+  } catch (error: unknown) {
+    console.error("Error deleting term list entry:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to delete entry",
+    };
+  }
+}
+
+/**
+ * Run the organization's term lists against sample text (no model call)
+ */
+export async function testTermLists(
+  text: string
+): Promise<TestTermListsResult> {
+  try {
+    const org = await getCurrentOrganization();
+
+    if (!org) {
+      return { success: false, error: "Not authenticated" };
+    }
+
+    if (text.length > MAX_TEST_TEXT_LENGTH) {
+      return {
+        success: false,
+        error: `Test text must be ${MAX_TEST_TEXT_LENGTH} characters or less`,
+      };
+    }
+
+    const entries = await getTermLists(org.id);
+    return { success: true, matches: matchTerms(text, entries) };
+  } catch (error: unknown) {
+    console.error("Error testing term lists:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to test text",
+    };
+  }
+}
@@ -0,0 +1,154 @@
+// app/dashboard/term-lists/page.tsx
+
+import { prisma } from "@/lib/db";
+import { getCurrentOrganization } from "@/lib/auth";
+import { POLICY_CATEGORIES } from "@/lib/moderation/policy";
+import { AddTermForm } from "./_components/add-term-form";
+import { DeleteTermButton } from "./_components/delete-term-button";
+import { TermTestBox } from "./_components/term-test-box";
+
+const MATCH_TYPE_LABELS: Record<string, string> = {
+  exact: "Exact text",
+  word: "Whole word",
+  regex: "Regex",
+};
+
+export default async function TermListsPage() {
+  const org = await getCurrentOrganization();
+
+  if (!org) {
+    return (
+      <div className="flex min-h-[60vh] items-center justify-center">
+        <p className="text-gray-600">
+          Unable to load organization. Please try refreshing.
+        </p>
+      </div>
+    );
+  }
+
+  const entries = await prisma.termListEntry.findMany({
+    where: { orgId: org.id },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const lists = [
+    {
+      key: "block",
+      title: "Blocklist",
+      description:
+        "Terms the model misses. A match forces at least a flag or block decision.",
+      entries: entries.filter((e) => e.list === "block"),
+    },
+    {
+      key: "allow",
+      title: "Allowlist",
+      description:
+        "Harmless terms the model over-flags. A match sets the chosen category score to 0.",
+      entries: entries.filter((e) => e.list === "allow"),
+    },
+  ];
+
+  return (
+    <div className="w-full">
+      {/* Header */}
+      <header className="mb-6">
+        <h1 className="text-xl font-semibold tracking-tight">Term Lists</h1>
+        <p className="mt-1 text-xs text-slate-600">
+          Slang, brand terms and false positives for{" "}
+          <span className="font-medium text-slate-800">{org.name}</span>. Term
+          lists are checked on every moderation request, and matches are
+          returned in{" "}
+          <code className="rounded bg-slate-100 px-1 py-0.5 text-[11px]">
+            matched_terms
+          </code>
+          .
+        </p>
+      </header>
+
+      {/* Add Entry */}
+      <section className="mb-6">
+        <div className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+          <h2 className="mb-3 text-sm font-semibold tracking-tight">
+            Add Entry
+          </h2>
+          <AddTermForm categories={POLICY_CATEGORIES} />
+        </div>
+      </section>
+
+      {/* Test Box */}
+      <section className="mb-6">
+        <div className="rounded-xl border border-slate-200 bg-white p-4 shadow-sm">
+          <h2 className="mb-3 text-sm font-semibold tracking-tight">
+            Test Your Lists
+          </h2>
+          <TermTestBox />
+        </div>
+      </section>
+
+      {lists.map((list) => (
+        <section key={list.key} className="mb-6">
+          <div className="mb-3 flex items-center justify-between gap-2">
+            <div>
+              <h2 className="text-sm font-semibold tracking-tight">
+                {list.title}
+              </h2>
+              <p className="text-xs text-slate-500">{list.description}</p>
+            </div>
+            <p className="text-xs text-slate-500">
+              {list.entries.length} entr
+              {list.entries.length === 1 ? "y" : "ies"}
+            </p>
+          </div>
+
+          {list.entries.length === 0 ? (
+            <div className="rounded-lg border border-dashed border-slate-300 bg-slate-50 p-6 text-center text-sm text-slate-500">
+              No entries yet.
+            </div>
+          ) : (
+            <div className="overflow-hidden rounded-xl border border-slate-200 bg-white shadow-sm">
+              <table className="min-w-full text-left text-sm">
+                <thead className="bg-slate-50 text-xs uppercase text-slate-500">
+                  <tr>
+                    <th className="px-4 py-3">Pattern</th>
+                    <th className="px-4 py-3">Match</th>
+                    <th className="px-4 py-3">
+                      {list.key === "block" ? "Forces" : "Suppresses"}
+                    </th>
+                    <th className="px-4 py-3">Created</th>
+                    <th className="px-4 py-3">Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {list.entries.map((entry) => (
+                    <tr
+                      key={entry.id}
+                      className="border-t border-slate-100 hover:bg-slate-50/70"
+                    >
+                      <td className="px-4 py-2 align-top text-xs font-mono text-slate-800 break-all">
+                        {entry.pattern}
+                      </td>
+                      <td className="px-4 py-2 align-top text-xs text-slate-700">
+                        {MATCH_TYPE_LABELS[entry.matchType] ?? entry.matchType}
+                      </td>
+                      <td className="px-4 py-2 align-top text-xs text-slate-700">
+                        {list.key === "block"
+                          ? entry.action
+                          : entry.category ?? "all categories"}
+                      </td>
+                      <td className="px-4 py-2 align-top text-xs text-slate-600">
+                        {entry.createdAt.toISOString()}
+                      </td>
+                      <td className="px-4 py-2 align-top text-xs">
+                        <DeleteTermButton entryId={entry.id} />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+      ))}
+    </div>
+  );
+}
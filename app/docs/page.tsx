@@ -8,7 +8,8 @@ export const metadata = {
 const errorResponses = [
   {
     code: "400 Bad Request",
-    description: "Invalid or missing request body fields.",
+    description:
+      "Invalid or missing request body fields, an unknown model, or a detected language the model does not support.",
     body: `{\n  "error": "Missing or invalid \\"text\\" field in request body."\n}`,
     badgeClasses:
       "rounded bg-red-100 px-2 py-1 text-xs font-semibold text-red-800",
@@ -20,13 +21,38 @@ const errorResponses = [
     badgeClasses:
       "rounded bg-red-100 px-2 py-1 text-xs font-semibold text-red-800",
   },
+  {
+    code: "403 Forbidden",
+    description:
+      "The model that would serve the text (after language routing and model rollouts) is not included in your plan. The body lists the models it includes.",
+    body: `{\n  "error": "Your plan does not include model \\"english-pro\\". Upgrade your CleanMod plan to use it.",\n  "model": "english-pro",\n  "models_allowed": ["english-basic"]\n}`,
+    badgeClasses:
+      "rounded bg-red-100 px-2 py-1 text-xs font-semibold text-red-800",
+  },
   {
     code: "429 Too Many Requests",
-    description: "Monthly quota exceeded.",
-    body: `{\n  "error": "Monthly quota exceeded. Upgrade your CleanMod plan to continue.",\n  "quota": 5000,\n  "used": 5000\n}`,
+    description:
+      "Monthly quota exceeded, or on plans with a soft limit, the monthly cap reached (the body then includes hard_cap).",
+    body: `{\n  "error": "Monthly quota exceeded. Upgrade your CleanMod plan to continue.",\n  "quota": 5000,\n  "used": 5000,\n  "requested": 1\n}`,
     badgeClasses:
       "rounded bg-amber-100 px-2 py-1 text-xs font-semibold text-amber-800",
   },
+  {
+    code: "429 Too Many Requests",
+    description:
+      "Rate limit exceeded for the API key or the organization. Retry after the number of seconds in the Retry-After header.",
+    body: `{\n  "error": "Rate limit exceeded for this API key. Slow down and retry after the Retry-After delay.",\n  "limit": 60\n}`,
+    badgeClasses:
+      "rounded bg-amber-100 px-2 py-1 text-xs font-semibold text-amber-800",
+  },
+  {
+    code: "409 Conflict",
+    description:
+      "The Idempotency-Key was already used with a different request body, or the first request with it is still running.",
+    body: `{\n  "error": "This Idempotency-Key was already used with a different request. Use a new key for a new request."\n}`,
+    badgeClasses:
+      "rounded bg-red-100 px-2 py-1 text-xs font-semibold text-red-800",
+  },
   {
     code: "500 Internal Server Error",
     description: "An unexpected error occurred on the server.",
@@ -223,14 +249,20 @@ var_dump($result);`,
               <pre className="text-sm text-slate-100">
                 <code>{`{
   "text": "You are an idiot",
-  "model": "english-basic"
+  "model": "english-basic",
+  "context": {
+    "source": "comment",
+    "user_id": "123",
+    "metadata": { "post_id": "abc" }
+  }
 }`}</code>
               </pre>
             </div>
             <div className="mt-3 space-y-2 text-sm text-slate-700">
               <p>
                 <span className="font-medium">text</span> (required): The text
-                content to moderate. Must be a non-empty string.
+                content to moderate. Must be a non-empty string of up to 100,000
+                characters.
               </p>
               <p>
                 <span className="font-medium">model</span> (optional): The
@@ -238,8 +270,58 @@ var_dump($result);`,
                 <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
                   english-basic
                 </code>
+                . Use{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  english-pro
+                </code>{" "}
+                for OpenAI omni-moderation scoring, or{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  english-ensemble
+                </code>{" "}
+                to score with both and combine the results. Unknown model keys
+                are rejected with a 400 error.
+              </p>
+              <p>
+                <span className="font-medium">redact</span> (optional): Set to{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  true
+                </code>{" "}
+                to receive a{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  redacted_text
+                </code>{" "}
+                copy of the input with detected PII replaced by labels such as{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  [EMAIL]
+                </code>
                 .
               </p>
+              <p>
+                <span className="font-medium">context</span> (optional): Where
+                the text came from. All fields are optional and stored with the
+                moderation log, where you can filter by them.{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  source
+                </code>{" "}
+                is a lowercase slug of up to 64 characters (for example{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  comment
+                </code>{" "}
+                or{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  username
+                </code>
+                ); your policy can set different thresholds per source.{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  user_id
+                </code>{" "}
+                is your end user&apos;s ID (up to 256 characters).{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  metadata
+                </code>{" "}
+                is any JSON object up to 4 KB. Other fields are rejected with a
+                400 error.
+              </p>
             </div>
           </div>
 
@@ -257,6 +339,40 @@ var_dump($result);`,
   "decision": "flag",
   "overall_score": 0.91,
   "threshold": 0.8,
+  "rule": {
+    "category": "overall",
+    "action": "flag",
+    "threshold": 0.8,
+    "score": 0.91
+  },
+  "fallback": false,
+  "degraded": false,
+  "failure_mode": null,
+  "policy_version": 3,
+  "matched_terms": [],
+  "normalization": null,
+  "pii": [],
+  "language": {
+    "code": "en",
+    "confidence": 0.86
+  },
+  "cached": false,
+  "overage": false,
+  "rollout": null,
+  "risk_tier": "low",
+  "escalation": null,
+  "segments": [
+    {
+      "start": 0,
+      "end": 16,
+      "overall_score": 0.91,
+      "categories": {
+        "toxicity": 0.91,
+        "insult": 0.88
+      }
+    }
+  ],
+  "ensemble": null,
   "categories": {
     "toxicity": 0.91,
     "insult": 0.88
@@ -290,12 +406,766 @@ var_dump($result);`,
                 toxicity score (0-1), where higher values indicate more toxic
                 content.
               </p>
+              <p>
+                <span className="font-medium">rule</span>: The policy rule that
+                produced a{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  flag
+                </code>{" "}
+                or{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  block
+                </code>{" "}
+                decision: the category (or{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  overall
+                </code>
+                ), its threshold and the score that crossed it.{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  null
+                </code>{" "}
+                when the text is allowed.
+              </p>
+              <p>
+                <span className="font-medium">fallback</span>:{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  true
+                </code>{" "}
+                when the model&apos;s primary provider was unavailable and a
+                fallback answered instead;{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  provider
+                </code>{" "}
+                and{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  providerModel
+                </code>{" "}
+                always name the one that answered.{" "}
+                <span className="font-medium">degraded</span> is{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  true
+                </code>{" "}
+                when every provider was down and the decision comes from your
+                organization&apos;s outage setting (fail open or fail closed).{" "}
+                <span className="font-medium">failure_mode</span> names the
+                outage setting that answered (
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  open
+                </code>
+                ,{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  closed
+                </code>{" "}
+                or{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  lexical
+                </code>
+                , the built-in word list), or is{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  null
+                </code>{" "}
+                when a model provider answered.
+              </p>
+              <p>
+                <span className="font-medium">policy_version</span>: Version of
+                your organization&apos;s moderation policy used for this
+                decision, or{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  null
+                </code>{" "}
+                for the built-in default policy.
+              </p>
+              <p>
+                <span className="font-medium">matched_terms</span>: Hits from
+                your organization&apos;s blocklist and allowlist, with the
+                matched text and its character offsets.
+              </p>
+              <p>
+                <span className="font-medium">normalization</span>: When text
+                normalization is enabled for your organization, the
+                transformations applied (e.g.{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  leetspeak
+                </code>
+                ) and whether the verdict came from the{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  raw
+                </code>{" "}
+                or{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  canonical
+                </code>{" "}
+                text. Offsets in{" "}
+                <span className="font-medium">matched_terms</span> and{" "}
+                <span className="font-medium">segments</span> always point into
+                the text you sent, even when the canonical text decided.
+                Otherwise{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  null
+                </code>
+                .
+              </p>
+              <p>
+                <span className="font-medium">pii</span>: Personal data found in
+                the text (
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  email
+                </code>
+                ,{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  phone
+                </code>
+                ,{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  credit_card
+                </code>
+                ,{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  iban
+                </code>
+                ,{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  address
+                </code>
+                ) with character offsets. Scores appear under the{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  pii_*
+                </code>{" "}
+                categories and only affect the decision through your policy.
+              </p>
+              <p>
+                <span className="font-medium">language</span>: The detected
+                language as an ISO 639-1 code (
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  und
+                </code>{" "}
+                when the text is too short to tell) with a 0-1 confidence. When
+                no model is specified and the default model does not cover the
+                language, a model that does is chosen automatically if your plan
+                includes it (otherwise the default model scores the text). A
+                request that names a model is only rejected for the text&apos;s
+                language when the detection confidence is at least 0.8.
+              </p>
+              <p>
+                <span className="font-medium">cached</span>:{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  true
+                </code>{" "}
+                when the verdict was reused from a recent identical request
+                (same text, model and policy version). Cached requests are still
+                logged; whether they use quota depends on your plan.
+              </p>
+              <p>
+                <span className="font-medium">overage</span>:{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  true
+                </code>{" "}
+                when the request was served past your monthly quota. Plans with
+                a soft limit keep serving requests up to their monthly cap and
+                bill these separately; other plans reject them with a 429.
+              </p>
+              <p>
+                <span className="font-medium">rollout</span>: When your
+                organization is gradually moving traffic to a new model, the
+                rollout&apos;s{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  id
+                </code>{" "}
+                and the{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  arm
+                </code>{" "}
+                (
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  control
+                </code>{" "}
+                or{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  treatment
+                </code>
+                ) that served the request;{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  model
+                </code>{" "}
+                is the model that was actually used. The same text (or the same{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  context.user_id
+                </code>
+                , if the rollout buckets by end user) always gets the same arm.
+              </p>
+              <p>
+                <span className="font-medium">risk_tier</span>: With a{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  context.user_id
+                </code>
+                , the end user&apos;s tier (
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  low
+                </code>
+                ,{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  elevated
+                </code>{" "}
+                or{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  high
+                </code>
+                ) from their recent flags and blocks, before this request;{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  null
+                </code>{" "}
+                without one. If your policy lowers thresholds for that tier and
+                the text crossed a lowered threshold,{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  escalation
+                </code>{" "}
+                gives the tier, the decision before escalation (
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  from
+                </code>
+                ) and the margin; a decision only ever moves up one step.
+              </p>
+              <p>
+                <span className="font-medium">segments</span>: Long texts are
+                split into sentence-aware chunks that fit the model&apos;s input
+                limit and moderated separately. Each segment has its character
+                offsets and its own scores, so you can highlight the sentence
+                that was flagged. The top-level scores are the highest segment
+                scores. Short texts have a single segment.
+              </p>
+              <p>
+                <span className="font-medium">ensemble</span>: For ensemble
+                models, the combining strategy (
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  mean
+                </code>
+                ,{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  max
+                </code>{" "}
+                or{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  vote
+                </code>
+                ) and each member model&apos;s weight, provider and scores. The
+                top-level scores are the combined ones, and{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  segments
+                </code>{" "}
+                is empty.{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  null
+                </code>{" "}
+                for single-provider models.
+              </p>
               <p>
                 <span className="font-medium">categories</span>: Per-category
-                scores for different types of harmful content.
+                scores for different types of harmful content. Always includes{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  spam
+                </code>
+                , a heuristic score for link floods, URL shorteners, shouting,
+                repetition and crypto or phone bait, which counts toward{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  overall_score
+                </code>
+                .
+              </p>
+            </div>
+          </div>
+        </section>
+
+        {/* Batch Endpoint Section */}
+        <section className="mb-12 rounded-xl bg-white p-6 shadow-sm border border-slate-200">
+          <h2 className="mb-4 text-2xl font-semibold tracking-tight text-slate-900">
+            Batch Moderation
+          </h2>
+          <p className="mb-4 text-slate-700">
+            Moderate up to 100 texts in one request. Each item accepts the same
+            fields as a single request plus an optional client{" "}
+            <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+              id
+            </code>{" "}
+            that is echoed back.
+          </p>
+
+          <div className="mb-6">
+            <p className="mb-2 text-sm font-medium text-slate-700">Endpoint</p>
+            <code className="block rounded-lg bg-slate-50 p-3 text-sm text-slate-900 border border-slate-200">
+              POST {baseUrl}/api/v1/moderate/batch
+            </code>
+          </div>
+
+          <div className="mb-6">
+            <h3 className="mb-3 text-lg font-semibold text-slate-900">
+              Request Body
+            </h3>
+            <div className="rounded-lg bg-slate-900 p-4 overflow-x-auto">
+              <pre className="text-sm text-slate-100">
+                <code>{`{
+  "items": [
+    { "id": "comment-1", "text": "Great post!" },
+    { "id": "comment-2", "text": "You are an idiot", "model": "english-pro" }
+  ]
+}`}</code>
+              </pre>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="mb-3 text-lg font-semibold text-slate-900">
+              Response Body
+            </h3>
+            <div className="rounded-lg bg-slate-900 p-4 overflow-x-auto">
+              <pre className="text-sm text-slate-100">
+                <code>{`{
+  "results": [
+    { "id": "comment-1", "status": 200, "result": { "decision": "allow", ... } },
+    { "id": "comment-2", "status": 400, "error": "Unknown model ..." }
+  ],
+  "summary": { "total": 2, "succeeded": 1, "failed": 1 }
+}`}</code>
+              </pre>
+            </div>
+            <div className="mt-3 space-y-2 text-sm text-slate-700">
+              <p>
+                Results are returned in request order. Each{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  result
+                </code>{" "}
+                has the same shape as a single moderation response. Failed items
+                carry their own status and error and are not charged.
+              </p>
+              <p>
+                Every valid item uses one unit of your monthly quota. If the
+                batch does not fit in the remaining quota, the whole request is
+                rejected with a 429 and nothing is moderated.
+              </p>
+            </div>
+          </div>
+        </section>
+
+        {/* Conversation Endpoint Section */}
+        <section className="mb-12 rounded-xl bg-white p-6 shadow-sm border border-slate-200">
+          <h2 className="mb-4 text-2xl font-semibold tracking-tight text-slate-900">
+            Conversation Moderation
+          </h2>
+          <p className="mb-4 text-slate-700">
+            Some replies are only harmful in context (&quot;do it, you know what
+            happens&quot;). Send a thread, oldest message first: every message
+            is moderated on its own, and the final message is also moderated as
+            part of a transcript of up to 10 earlier turns. Its verdict is the
+            more severe of the two. The transcript is scored by the model only:
+            term lists, PII and spam checks apply to each message on its own.
+          </p>
+
+          <div className="mb-6">
+            <p className="mb-2 text-sm font-medium text-slate-700">Endpoint</p>
+            <code className="block rounded-lg bg-slate-50 p-3 text-sm text-slate-900 border border-slate-200">
+              POST {baseUrl}/api/v1/moderate/conversation
+            </code>
+          </div>
+
+          <div className="mb-6">
+            <h3 className="mb-3 text-lg font-semibold text-slate-900">
+              Request Body
+            </h3>
+            <div className="rounded-lg bg-slate-900 p-4 overflow-x-auto">
+              <pre className="text-sm text-slate-100">
+                <code>{`{
+  "messages": [
+    { "author_id": "alice", "text": "I know where you live" },
+    { "author_id": "bob", "text": "So what?" },
+    { "author_id": "alice", "text": "do it, you know what happens" }
+  ],
+  "model": "english-pro",
+  "context": { "source": "chat" }
+}`}</code>
+              </pre>
+            </div>
+            <div className="mt-3 space-y-2 text-sm text-slate-700">
+              <p>
+                Up to 50 messages.{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  author_id
+                </code>{" "}
+                is required and is used as the message&apos;s end-user ID;
+                authors appear to the model only as &quot;User 1&quot;,
+                &quot;User 2&quot;, and so on.{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  model
+                </code>
+                ,{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  redact
+                </code>{" "}
+                and{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  context
+                </code>{" "}
+                (without{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  user_id
+                </code>
+                ) apply to every message. Only the final message counts toward
+                its author&apos;s reputation: the earlier ones counted when they
+                were sent.
               </p>
             </div>
           </div>
+
+          <div>
+            <h3 className="mb-3 text-lg font-semibold text-slate-900">
+              Response Body
+            </h3>
+            <div className="rounded-lg bg-slate-900 p-4 overflow-x-auto">
+              <pre className="text-sm text-slate-100">
+                <code>{`{
+  "thread": {
+    "decision": "block",
+    "overall_score": 0.93,
+    "decided_by": 2,
+    "context": { "decision": "block", "overall_score": 0.93, "messages": 3 }
+  },
+  "messages": [
+    { "index": 0, "author_id": "alice", "decision": "flag", "reused": true, ... },
+    { "index": 1, "author_id": "bob", "decision": "allow", "reused": true, ... },
+    { "index": 2, "author_id": "alice", "decision": "block", "reused": false, ... }
+  ],
+  "units": 1,
+  "overage_units": 0
+}`}</code>
+              </pre>
+            </div>
+            <div className="mt-3 space-y-2 text-sm text-slate-700">
+              <p>
+                Each entry in{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  messages
+                </code>{" "}
+                has the same fields as a single moderation response. The{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  thread
+                </code>{" "}
+                verdict is the most severe message decision;{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  decided_by
+                </code>{" "}
+                is the index of that message (
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  null
+                </code>{" "}
+                when everything is allowed) and{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  context
+                </code>{" "}
+                is the final message&apos;s in-context score.
+              </p>
+              <p>
+                <span className="font-medium">Quota:</span> earlier messages
+                already moderated for the same author (same text, source and
+                policy version) return their logged verdict with{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  reused: true
+                </code>{" "}
+                and the original log{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  id
+                </code>
+                , and are not charged or logged again. Every other message uses
+                one unit, like a batch item; the in-context pass over the final
+                message is free.{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  units
+                </code>{" "}
+                is what the request used, and{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  overage_units
+                </code>{" "}
+                how many of those were past your monthly quota. If the new
+                messages do not fit in the remaining quota, the request is
+                rejected with a 429.
+              </p>
+            </div>
+          </div>
+        </section>
+
+        {/* End Users Section */}
+        <section className="mb-12 rounded-xl bg-white p-6 shadow-sm border border-slate-200">
+          <h2 className="mb-4 text-2xl font-semibold tracking-tight text-slate-900">
+            End User Reputation
+          </h2>
+          <p className="mb-4 text-slate-700">
+            Requests with a{" "}
+            <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+              context.user_id
+            </code>{" "}
+            build a reputation for that end user: each flag adds 1 point and
+            each block 3, and points decay over time. Points come from the
+            decision before any risk-tier escalation, so escalated verdicts
+            don&apos;t compound. List, inspect and reset reputations with these
+            endpoints (user IDs are URL-encoded in the path).
+          </p>
+
+          <div className="mb-6">
+            <p className="mb-2 text-sm font-medium text-slate-700">Endpoints</p>
+            <code className="block whitespace-pre rounded-lg bg-slate-50 p-3 text-sm text-slate-900 border border-slate-200">
+              {`GET  ${baseUrl}/api/v1/end-users?tier=elevated&limit=50&offset=0
+GET  ${baseUrl}/api/v1/end-users/{user_id}
+POST ${baseUrl}/api/v1/end-users/{user_id}/reset`}
+            </code>
+          </div>
+
+          <div>
+            <h3 className="mb-3 text-lg font-semibold text-slate-900">
+              Response Body
+            </h3>
+            <div className="rounded-lg bg-slate-900 p-4 overflow-x-auto">
+              <pre className="text-sm text-slate-100">
+                <code>{`{
+  "user_id": "123",
+  "score": 4.12,
+  "risk_tier": "elevated",
+  "request_count": 57,
+  "flag_count": 3,
+  "block_count": 1,
+  "last_seen_at": "2025-01-01T12:00:00.000Z",
+  "last_offense_at": "2025-01-01T11:58:00.000Z",
+  "reset_at": null,
+  "created_at": "2024-12-01T09:30:00.000Z"
+}`}</code>
+              </pre>
+            </div>
+            <div className="mt-3 space-y-2 text-sm text-slate-700">
+              <p>
+                The list endpoint returns{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  end_users
+                </code>{" "}
+                (highest score first) with{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  total
+                </code>
+                ;{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  tier
+                </code>{" "}
+                keeps users at that tier or above. Resetting clears the score
+                and flag and block counts; unknown users return a 404.
+              </p>
+            </div>
+          </div>
+        </section>
+
+        {/* Async Jobs Section */}
+        <section className="mb-12 rounded-xl bg-white p-6 shadow-sm border border-slate-200">
+          <h2 className="mb-4 text-2xl font-semibold tracking-tight text-slate-900">
+            Async Moderation
+          </h2>
+          <p className="mb-4 text-slate-700">
+            For content that does not need a verdict right away (long documents,
+            imports), queue it and poll for the result, or get a callback when
+            it is ready. The request body is the same as{" "}
+            <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+              /moderate
+            </code>
+            , plus an optional{" "}
+            <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+              callback_url
+            </code>{" "}
+            (https on the default port, without credentials). Callback URLs that
+            resolve to private, loopback or link-local addresses are rejected.
+          </p>
+
+          <div className="mb-6">
+            <p className="mb-2 text-sm font-medium text-slate-700">Endpoints</p>
+            <code className="block whitespace-pre rounded-lg bg-slate-50 p-3 text-sm text-slate-900 border border-slate-200">
+              {`POST ${baseUrl}/api/v1/moderate/async
+GET  ${baseUrl}/api/v1/jobs/{id}`}
+            </code>
+          </div>
+
+          <div className="mb-6">
+            <h3 className="mb-3 text-lg font-semibold text-slate-900">
+              Job (202 Accepted, and when polling)
+            </h3>
+            <div className="rounded-lg bg-slate-900 p-4 overflow-x-auto">
+              <pre className="text-sm text-slate-100">
+                <code>{`{
+  "id": "cmj0job123",
+  "status": "completed",
+  "result": { "id": "clx...", "decision": "allow", ... },
+  "error": null,
+  "attempts": 1,
+  "created_at": "2025-01-01T12:00:00.000Z",
+  "completed_at": "2025-01-01T12:00:02.000Z",
+  "callback": {
+    "url": "https://example.com/hooks/cleanmod",
+    "status": "delivered",
+    "attempts": 1,
+    "last_error": null
+  }
+}`}</code>
+              </pre>
+            </div>
+            <div className="mt-3 space-y-2 text-sm text-slate-700">
+              <p>
+                <span className="font-medium">status</span>:{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  queued
+                </code>
+                ,{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  running
+                </code>
+                ,{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  completed
+                </code>{" "}
+                (
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  result
+                </code>{" "}
+                is the /moderate response) or{" "}
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  failed
+                </code>{" "}
+                (
+                <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                  error
+                </code>{" "}
+                has the status and message the synchronous endpoint would have
+                returned). Provider outages are retried, up to 3 attempts,
+                before a job fails; a job whose API key is deactivated before it
+                runs fails with a 401. Quota is used when the job runs, and the
+                text is discarded once it has finished.
+              </p>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="mb-3 text-lg font-semibold text-slate-900">
+              Callbacks
+            </h3>
+            <p className="mb-3 text-sm text-slate-700">
+              When the job finishes, the job (without{" "}
+              <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                callback
+              </code>
+              ) is POSTed to your{" "}
+              <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                callback_url
+              </code>
+              . Any 2xx response counts as delivered; otherwise delivery is
+              retried with backoff, up to 8 times over about an hour. Each
+              callback is signed with your organization&apos;s callback secret
+              (see the API keys page):
+            </p>
+            <div className="rounded-lg bg-slate-900 p-4 overflow-x-auto">
+              <pre className="text-sm text-slate-100">
+                <code>{`// X-CleanMod-Signature: t=1735732802,v1=5257a869e7...
+const [t, v1] = header.split(",").map((part) => part.split("=")[1]);
+const expected = crypto
+  .createHmac("sha256", process.env.CLEANMOD_CALLBACK_SECRET)
+  .update(\`\${t}.\${rawBody}\`)
+  .digest("hex");
+const valid =
+  crypto.timingSafeEqual(Buffer.from(v1), Buffer.from(expected)) &&
+  Math.abs(Date.now() / 1000 - Number(t)) < 300;`}</code>
+              </pre>
+            </div>
+          </div>
+        </section>
+
+        {/* Idempotency Section */}
+        <section className="mb-12 rounded-xl bg-white p-6 shadow-sm border border-slate-200">
+          <h2 className="mb-4 text-2xl font-semibold tracking-tight text-slate-900">
+            Idempotent Retries
+          </h2>
+          <p className="mb-4 text-slate-700">
+            Send an{" "}
+            <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+              Idempotency-Key
+            </code>{" "}
+            header (up to 255 characters, e.g. a UUID per request) with{" "}
+            <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+              /moderate
+            </code>
+            ,{" "}
+            <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+              /moderate/batch
+            </code>
+            ,{" "}
+            <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+              /moderate/conversation
+            </code>{" "}
+            or{" "}
+            <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+              /moderate/async
+            </code>{" "}
+            so retrying after a timeout is safe.
+          </p>
+
+          <div className="mb-6">
+            <p className="mb-2 text-sm font-medium text-slate-700">Header</p>
+            <code className="block whitespace-pre rounded-lg bg-slate-50 p-3 text-sm text-slate-900 border border-slate-200">
+              {`Idempotency-Key: 5f0c2a9e-3c1d-4b8e-9a57-2d7f1e6b4c10`}
+            </code>
+          </div>
+
+          <div className="space-y-2 text-sm text-slate-700">
+            <p>
+              For 24 hours, a request with the same key and body gets the
+              original response (the same log{" "}
+              <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                id
+              </code>
+              ) with an{" "}
+              <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">
+                Idempotent-Replayed: true
+              </code>{" "}
+              header. Replays are not moderated again and do not use quota.
+            </p>
+            <p>
+              Reusing a key with a different body, or while the first request is
+              still running, returns a 409. Keys are only kept for successful
+              responses: after an error, retry with the same key.
+            </p>
+          </div>
+        </section>
+
+        {/* Rate Limits Section */}
+        <section className="mb-12 rounded-xl bg-white p-6 shadow-sm border border-slate-200">
+          <h2 className="mb-4 text-2xl font-semibold tracking-tight text-slate-900">
+            Rate Limits
+          </h2>
+          <p className="mb-4 text-slate-700">
+            Every API key has a requests-per-minute limit, and so does its
+            organization across all of its keys. Limits come from your plan; a
+            key can have its own limit, set on the API keys page. Clients may
+            burst up to the full limit, which then refills continuously.
+          </p>
+
+          <div className="mb-6">
+            <p className="mb-2 text-sm font-medium text-slate-700">
+              Response Headers
+            </p>
+            <code className="block whitespace-pre rounded-lg bg-slate-50 p-3 text-sm text-slate-900 border border-slate-200">
+              {`X-RateLimit-Limit: 60      # requests per minute
+X-RateLimit-Remaining: 42  # requests left right now
+X-RateLimit-Reset: 18      # seconds until the limit is fully refilled
+Retry-After: 1             # only on 429: seconds until the next request is allowed`}
+            </code>
+          </div>
+
+          <div className="space-y-2 text-sm text-slate-700">
+            <p>
+              The headers describe whichever limit, the key&apos;s or the
+              organization&apos;s, is closest to running out. Each HTTP request
+              counts once, so a batch or conversation uses one request however
+              many texts it carries (monthly quota is still counted per text).
+            </p>
+          </div>
         </section>
 
         {/* Errors Section */}
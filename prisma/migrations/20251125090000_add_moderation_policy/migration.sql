@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "ModerationLog" ADD COLUMN "policyVersion" INTEGER;
+
+-- CreateTable
+CREATE TABLE "ModerationPolicy" (
+    "id" TEXT NOT NULL,
+    "orgId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "defaultModel" TEXT NOT NULL DEFAULT 'english-basic',
+    "rules" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ModerationPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ModerationPolicy_orgId_idx" ON "ModerationPolicy"("orgId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ModerationPolicy_orgId_version_key" ON "ModerationPolicy"("orgId", "version");
+
+-- AddForeignKey
+ALTER TABLE "ModerationPolicy" ADD CONSTRAINT "ModerationPolicy_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
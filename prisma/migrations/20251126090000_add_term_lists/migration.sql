@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "TermListEntry" (
+    "id" TEXT NOT NULL,
+    "orgId" TEXT NOT NULL,
+    "list" TEXT NOT NULL,
+    "matchType" TEXT NOT NULL,
+    "pattern" TEXT NOT NULL,
+    "action" TEXT,
+    "category" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "TermListEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "TermListEntry_orgId_idx" ON "TermListEntry"("orgId");
+
+-- AddForeignKey
+ALTER TABLE "TermListEntry" ADD CONSTRAINT "TermListEntry_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
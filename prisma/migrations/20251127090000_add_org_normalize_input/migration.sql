@@ -0,0 +1,3 @@
+-- Add normalizeInput to Organization (obfuscation-resistant text normalization)
+-- Default is false: it changes inputHash semantics and adds latency
+ALTER TABLE "Organization" ADD COLUMN "normalizeInput" BOOLEAN NOT NULL DEFAULT false;
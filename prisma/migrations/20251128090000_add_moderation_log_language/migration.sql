@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "ModerationLog" ADD COLUMN "language" TEXT,
+ADD COLUMN "languageConfidence" DOUBLE PRECISION;
+
+-- CreateIndex
+CREATE INDEX "ModerationLog_orgId_language_idx" ON "ModerationLog"("orgId", "language");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Plan" ADD COLUMN "countCachedHits" BOOLEAN NOT NULL DEFAULT true;
+
+-- AlterTable
+ALTER TABLE "ModerationLog" ADD COLUMN "cached" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,3 @@
+-- Add failureMode to Organization (what to answer when every provider is down)
+-- Default "error" keeps the existing 503 behavior
+ALTER TABLE "Organization" ADD COLUMN "failureMode" TEXT NOT NULL DEFAULT 'error';
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Organization" ADD COLUMN "shadowModel" TEXT;
+
+-- AlterTable
+ALTER TABLE "ModerationLog" ADD COLUMN "shadowModel" TEXT,
+ADD COLUMN "shadowDecision" TEXT,
+ADD COLUMN "shadowNormalized" JSONB;
+
+-- CreateIndex
+CREATE INDEX "ModerationLog_orgId_shadowModel_idx" ON "ModerationLog"("orgId", "shadowModel");
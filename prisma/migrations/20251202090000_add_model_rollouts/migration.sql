@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "ModelRollout" (
+    "id" TEXT NOT NULL,
+    "orgId" TEXT NOT NULL,
+    "apiKeyId" TEXT,
+    "fromModel" TEXT NOT NULL,
+    "toModel" TEXT NOT NULL,
+    "percentage" DOUBLE PRECISION NOT NULL,
+    "bucketBy" TEXT NOT NULL DEFAULT 'input',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ModelRollout_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "ModerationLog" ADD COLUMN "rolloutId" TEXT,
+ADD COLUMN "rolloutArm" TEXT;
+
+-- CreateIndex
+CREATE INDEX "ModelRollout_orgId_idx" ON "ModelRollout"("orgId");
+
+-- CreateIndex
+CREATE INDEX "ModerationLog_orgId_rolloutId_idx" ON "ModerationLog"("orgId", "rolloutId");
+
+-- AddForeignKey
+ALTER TABLE "ModelRollout" ADD CONSTRAINT "ModelRollout_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ModelRollout" ADD CONSTRAINT "ModelRollout_apiKeyId_fkey" FOREIGN KEY ("apiKeyId") REFERENCES "ApiKey"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "ModerationLog" ADD COLUMN "source" TEXT,
+ADD COLUMN "endUserId" TEXT,
+ADD COLUMN "contextMetadata" JSONB;
+
+-- CreateIndex
+CREATE INDEX "ModerationLog_orgId_source_idx" ON "ModerationLog"("orgId", "source");
+
+-- CreateIndex
+CREATE INDEX "ModerationLog_orgId_endUserId_idx" ON "ModerationLog"("orgId", "endUserId");
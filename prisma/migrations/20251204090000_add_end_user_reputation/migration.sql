@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "EndUserReputation" (
+    "id" TEXT NOT NULL,
+    "orgId" TEXT NOT NULL,
+    "endUserId" TEXT NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "scoreUpdatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "requestCount" INTEGER NOT NULL DEFAULT 0,
+    "flagCount" INTEGER NOT NULL DEFAULT 0,
+    "blockCount" INTEGER NOT NULL DEFAULT 0,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastOffenseAt" TIMESTAMP(3),
+    "resetAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "EndUserReputation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "EndUserReputation_orgId_score_idx" ON "EndUserReputation"("orgId", "score");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EndUserReputation_orgId_endUserId_key" ON "EndUserReputation"("orgId", "endUserId");
+
+-- AddForeignKey
+ALTER TABLE "EndUserReputation" ADD CONSTRAINT "EndUserReputation_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Plan" ADD COLUMN "rateLimitPerMinute" INTEGER,
+ADD COLUMN "keyRateLimitPerMinute" INTEGER;
+
+-- AlterTable
+ALTER TABLE "ApiKey" ADD COLUMN "rateLimitPerMinute" INTEGER;
@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "Plan" ADD COLUMN     "monthlyHardCap" INTEGER;
+
+-- AlterTable
+ALTER TABLE "ModerationLog" ADD COLUMN     "overage" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "UsageCounter" ADD COLUMN     "overage" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "QuotaPeriod" (
+    "id" TEXT NOT NULL,
+    "orgId" TEXT NOT NULL,
+    "month" TIMESTAMP(3) NOT NULL,
+    "used" INTEGER NOT NULL DEFAULT 0,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "QuotaPeriod_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuotaPeriod_orgId_month_key" ON "QuotaPeriod"("orgId", "month");
+
+-- AddForeignKey
+ALTER TABLE "QuotaPeriod" ADD CONSTRAINT "QuotaPeriod_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Backfill: start each month's reservations from the usage already counted
+INSERT INTO "QuotaPeriod" ("id", "orgId", "month", "used", "updatedAt")
+SELECT gen_random_uuid()::text, "orgId", date_trunc('month', "date"), SUM("count"), CURRENT_TIMESTAMP
+FROM "UsageCounter"
+GROUP BY "orgId", date_trunc('month', "date");
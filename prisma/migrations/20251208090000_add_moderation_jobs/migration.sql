@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE "Organization" ADD COLUMN     "callbackSecret" TEXT;
+
+-- CreateTable
+CREATE TABLE "ModerationJob" (
+    "id" TEXT NOT NULL,
+    "orgId" TEXT NOT NULL,
+    "apiKeyId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "input" JSONB,
+    "result" JSONB,
+    "error" JSONB,
+    "logId" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "runAfter" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "callbackUrl" TEXT,
+    "callbackStatus" TEXT,
+    "callbackAttempts" INTEGER NOT NULL DEFAULT 0,
+    "nextCallbackAt" TIMESTAMP(3),
+    "callbackError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ModerationJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ModerationJob_status_runAfter_idx" ON "ModerationJob"("status", "runAfter");
+
+-- CreateIndex
+CREATE INDEX "ModerationJob_callbackStatus_nextCallbackAt_idx" ON "ModerationJob"("callbackStatus", "nextCallbackAt");
+
+-- CreateIndex
+CREATE INDEX "ModerationJob_orgId_createdAt_idx" ON "ModerationJob"("orgId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ModerationJob" ADD CONSTRAINT "ModerationJob_orgId_fkey" FOREIGN KEY ("orgId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ModerationJob" ADD CONSTRAINT "ModerationJob_apiKeyId_fkey" FOREIGN KEY ("apiKeyId") REFERENCES "ApiKey"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -39,7 +39,8 @@ async function main() {
     create: {
       name: "pro",
       monthlyQuota: 250_000,
-      modelsAllowed: ["english-basic"],
+      modelsAllowed: ["english-basic", "english-pro"],
+      countCachedHits: false,
     },
   });
 
@@ -0,0 +1,45 @@
+// scripts/moderation-worker.ts
+//
+// Processes async moderation jobs and their callbacks.
+//   npm run worker            keep polling until stopped (Ctrl+C)
+//   npm run worker -- --once  drain what is due, then exit (e.g. from cron)
+import "dotenv/config";
+import { prisma } from "../src/lib/db";
+import { runWorkerOnce } from "../src/lib/moderation-jobs";
+
+const POLL_INTERVAL_MS = parseInt(
+  process.env.JOB_WORKER_POLL_INTERVAL_MS || "1000",
+  10
+);
+
+let stopping = false;
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.on(signal, () => {
+    console.log(`Received ${signal}, finishing the current pass...`);
+    stopping = true;
+  });
+}
+
+async function main() {
+  const once = process.argv.includes("--once");
+  console.log(`🛠️  CleanMod moderation worker started${once ? " (once)" : ""}`);
+
+  while (!stopping) {
+    const { jobs, callbacks } = await runWorkerOnce();
+    if (jobs || callbacks) {
+      console.log(`  Processed ${jobs} job(s), ${callbacks} callback(s)`);
+      continue;
+    }
+    if (once) break;
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+main()
+  .catch((e) => {
+    console.error("❌ Worker error:", e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,111 @@
+import { NextResponse } from "next/server";
+import type { ApiKey, Organization } from "@prisma/client";
+import { prisma } from "./db";
+import { hashApiKey } from "./api-keys";
+import { checkRateLimit, rateLimitHeaders } from "./rate-limit";
+
+export type AuthenticatedApiKey = ApiKey & { organization: Organization };
+
+export type ApiAuthResult =
+  | { success: true; apiKey: AuthenticatedApiKey }
+  | { success: false; error: string; status: number };
+
+function getApiKeyFromRequest(req: Request): string | null {
+  const authHeader = req.headers.get("authorization");
+  if (authHeader?.startsWith("Bearer ")) {
+    return authHeader.slice("Bearer ".length).trim();
+  }
+
+  const apiKeyHeader = req.headers.get("x-api-key");
+  if (apiKeyHeader && apiKeyHeader.trim().length > 0) {
+    return apiKeyHeader.trim();
+  }
+
+  return null;
+}
+
+/**
+ * Authenticate a public API request by its API key
+ * (`Authorization: Bearer <KEY>` or `x-api-key`).
+ */
+export async function authenticateApiRequest(
+  req: Request
+): Promise<ApiAuthResult> {
+  const apiKeyRaw = getApiKeyFromRequest(req);
+  if (!apiKeyRaw) {
+    return {
+      success: false,
+      error: "Missing API key. Use Authorization: Bearer <KEY> or x-api-key.",
+      status: 401,
+    };
+  }
+
+  const apiKey = await prisma.apiKey.findFirst({
+    where: {
+      keyHash: hashApiKey(apiKeyRaw),
+      isActive: true,
+    },
+    include: {
+      organization: true,
+    },
+  });
+
+  if (!apiKey || !apiKey.organization) {
+    return {
+      success: false,
+      error: "Invalid or inactive API key.",
+      status: 401,
+    };
+  }
+
+  return { success: true, apiKey };
+}
+
+/**
+ * Authenticate a public API request, enforce the per-key and per-org rate
+ * limits, and run `handler`. Its response gets the `X-RateLimit-*` headers;
+ * throttled requests get a 429 with `Retry-After` instead.
+ */
+export async function withApiKey(
+  req: Request,
+  handler: (apiKey: AuthenticatedApiKey) => Promise<Response>
+): Promise<Response> {
+  let apiKey: AuthenticatedApiKey;
+  let headers: Record<string, string> = {};
+  try {
+    const auth = await authenticateApiRequest(req);
+    if (!auth.success) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    apiKey = auth.apiKey;
+
+    const rateLimit = await checkRateLimit(apiKey);
+    if (rateLimit) {
+      headers = rateLimitHeaders(rateLimit);
+      if (!rateLimit.allowed) {
+        return NextResponse.json(
+          {
+            error:
+              rateLimit.scope === "key"
+                ? "Rate limit exceeded for this API key. Slow down and retry after the Retry-After delay."
+                : "Rate limit exceeded for your organization. Slow down and retry after the Retry-After delay.",
+            limit: rateLimit.limit,
+          },
+          { status: 429, headers }
+        );
+      }
+    }
+  } catch (err) {
+    console.error("API authentication error:", err);
+    return NextResponse.json(
+      { error: "Internal server error." },
+      { status: 500 }
+    );
+  }
+
+  const response = await handler(apiKey);
+  for (const [name, value] of Object.entries(headers)) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
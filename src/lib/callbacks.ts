@@ -0,0 +1,254 @@
+import crypto from "crypto";
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+import { prisma } from "./db";
+
+/**
+ * Signed HTTP callbacks for async moderation jobs.
+ *
+ * Each callback is a JSON POST with an `X-CleanMod-Signature` header of the
+ * form `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`, keyed with
+ * the org's callback secret. Receivers recompute the HMAC over the raw body
+ * and reject stale timestamps.
+ *
+ * Callback URLs must not reach internal services: hosts that resolve to a
+ * private, loopback, link-local or otherwise reserved address are rejected
+ * when the job is accepted and again on every delivery (the connection uses
+ * the checked address, so a DNS change in between can't redirect it).
+ * CALLBACK_ALLOW_PRIVATE_HOSTS=true lifts this for local development only.
+ */
+
+export const CALLBACK_SIGNATURE_HEADER = "X-CleanMod-Signature";
+
+const CALLBACK_TIMEOUT_MS = parseInt(
+  process.env.CALLBACK_TIMEOUT_MS || "10000",
+  10
+);
+
+// Failed deliveries are retried after 30s, 1m, 2m, ... up to this many tries
+export const MAX_CALLBACK_ATTEMPTS = 8;
+const CALLBACK_RETRY_BASE_MS = 30_000;
+
+const MAX_CALLBACK_URL_LENGTH = 2048;
+
+export function generateCallbackSecret(): string {
+  return `cm_whsec_${crypto.randomBytes(32).toString("base64url")}`;
+}
+
+/**
+ * The org's callback secret, created on first use.
+ */
+export async function getCallbackSecret(orgId: string): Promise<string> {
+  // Only fills an empty secret, so concurrent first uses agree on one
+  await prisma.organization.updateMany({
+    where: { id: orgId, callbackSecret: null },
+    data: { callbackSecret: generateCallbackSecret() },
+  });
+  const org = await prisma.organization.findUniqueOrThrow({
+    where: { id: orgId },
+    select: { callbackSecret: true },
+  });
+  return org.callbackSecret!;
+}
+
+// Non-public address ranges (RFC 6890 special-purpose and multicast)
+const PRIVATE_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  ["64:ff9b::", 96],
+  ["100::", 64],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+function allowPrivateHosts(): boolean {
+  return (
+    process.env.CALLBACK_ALLOW_PRIVATE_HOSTS === "true" &&
+    process.env.NODE_ENV !== "production"
+  );
+}
+
+/**
+ * True for addresses a callback must not be sent to. BlockList also applies
+ * the IPv4 ranges to IPv4-mapped IPv6 addresses (::ffff:169.254.169.254).
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 4) return PRIVATE_ADDRESSES.check(address, "ipv4");
+  if (family === 6) return PRIVATE_ADDRESSES.check(address, "ipv6");
+  return true;
+}
+
+/**
+ * `dns.lookup` that fails for hosts resolving to a private address. Used for
+ * the delivery connection itself, so the address checked is the one used.
+ */
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "");
+
+    if (
+      !allowPrivateHosts() &&
+      (addresses.length === 0 ||
+        addresses.some((a) => isPrivateAddress(a.address)))
+    ) {
+      return callback(
+        new Error(`${hostname} resolves to a private address`),
+        ""
+      );
+    }
+
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * Validate a `callback_url`. Returns an error message, or null when the URL
+ * is usable: an absolute https URL (http is also accepted outside
+ * production, for local receivers) on the default port, without credentials,
+ * whose host resolves only to public addresses.
+ */
+export async function validateCallbackUrl(
+  value: string
+): Promise<string | null> {
+  if (value.length > MAX_CALLBACK_URL_LENGTH) {
+    return `must be ${MAX_CALLBACK_URL_LENGTH} characters or less`;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return "must be an https URL";
+  }
+
+  if (
+    url.protocol !== "https:" &&
+    !(url.protocol === "http:" && process.env.NODE_ENV !== "production")
+  ) {
+    return "must be an https URL";
+  }
+  if (url.username || url.password) {
+    return "must not contain credentials";
+  }
+  // URL drops the port when it is the scheme's default
+  if (url.port) {
+    return "must use the default port";
+  }
+
+  if (allowPrivateHosts()) return null;
+
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, "$1");
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(hostname, { all: true });
+  } catch {
+    return "host could not be resolved";
+  }
+  if (
+    addresses.length === 0 ||
+    addresses.some((a) => isPrivateAddress(a.address))
+  ) {
+    return "must not point to a private or reserved address";
+  }
+
+  return null;
+}
+
+export function signCallback(
+  secret: string,
+  timestamp: number,
+  body: string
+): string {
+  const signature = crypto
+    .createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Delay before delivery attempt `attempt + 1`, after `attempt` failures.
+ */
+export function callbackRetryDelayMs(attempt: number): number {
+  return CALLBACK_RETRY_BASE_MS * 2 ** Math.max(0, attempt - 1);
+}
+
+/**
+ * POST a signed JSON payload. Any 2xx counts as delivered; redirects are not
+ * followed. The URL is validated again, and the connection refuses private
+ * addresses.
+ */
+export async function postCallback(
+  url: string,
+  secret: string,
+  payload: unknown
+): Promise<{ delivered: true } | { delivered: false; error: string }> {
+  const urlError = await validateCallbackUrl(url);
+  if (urlError) {
+    return { delivered: false, error: `Callback URL ${urlError}` };
+  }
+
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    const status = await new Promise<number>((resolve, reject) => {
+      const target = new URL(url);
+      const req = (target.protocol === "https:" ? https : http).request(
+        target,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "Content-Length": Buffer.byteLength(body),
+            "User-Agent": "CleanMod-Callbacks/1.0",
+            [CALLBACK_SIGNATURE_HEADER]: signCallback(secret, timestamp, body),
+          },
+          lookup: publicLookup,
+          signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+        },
+        (res) => {
+          res.resume();
+          resolve(res.statusCode ?? 0);
+        }
+      );
+      req.on("error", reject);
+      req.end(body);
+    });
+
+    if (status >= 200 && status < 300) return { delivered: true };
+    return { delivered: false, error: `HTTP ${status}` };
+  } catch (err) {
+    return {
+      delivered: false,
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+}
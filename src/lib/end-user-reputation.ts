@@ -0,0 +1,259 @@
+import { Prisma, type EndUserReputation } from "@prisma/client";
+import { prisma } from "./db";
+import {
+  decayScore,
+  OFFENSE_POINTS,
+  RISK_TIER_SCORES,
+  riskTierFor,
+} from "./moderation/reputation";
+import type { ModerationDecision, RiskTier } from "./moderation/types";
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+// Offense points halve every REPUTATION_HALF_LIFE_DAYS
+export const REPUTATION_HALF_LIFE_DAYS = parseInt(
+  process.env.REPUTATION_HALF_LIFE_DAYS || "14",
+  10
+);
+const HALF_LIFE_MS = REPUTATION_HALF_LIFE_DAYS * DAY_IN_MS;
+
+// Concurrent requests for one user retry their read-modify-write this often
+const MAX_UPDATE_ATTEMPTS = 3;
+
+export const MAX_REPUTATION_PAGE_SIZE = 100;
+
+/**
+ * An end user's reputation with the score decayed to now.
+ */
+export type EndUserReputationView = {
+  endUserId: string;
+  score: number;
+  riskTier: RiskTier;
+  requestCount: number;
+  flagCount: number;
+  blockCount: number;
+  lastSeenAt: Date;
+  lastOffenseAt: Date | null;
+  resetAt: Date | null;
+  createdAt: Date;
+};
+
+function currentScore(row: EndUserReputation, now: Date): number {
+  return decayScore(row.score, row.scoreUpdatedAt, now, HALF_LIFE_MS);
+}
+
+function toReputationView(
+  row: EndUserReputation,
+  now: Date
+): EndUserReputationView {
+  const score = currentScore(row, now);
+  return {
+    endUserId: row.endUserId,
+    score,
+    riskTier: riskTierFor(score),
+    requestCount: row.requestCount,
+    flagCount: row.flagCount,
+    blockCount: row.blockCount,
+    lastSeenAt: row.lastSeenAt,
+    lastOffenseAt: row.lastOffenseAt,
+    resetAt: row.resetAt,
+    createdAt: row.createdAt,
+  };
+}
+
+/**
+ * The public API representation of a reputation.
+ */
+export function toEndUserResponse(view: EndUserReputationView) {
+  return {
+    user_id: view.endUserId,
+    score: Math.round(view.score * 1000) / 1000,
+    risk_tier: view.riskTier,
+    request_count: view.requestCount,
+    flag_count: view.flagCount,
+    block_count: view.blockCount,
+    last_seen_at: view.lastSeenAt.toISOString(),
+    last_offense_at: view.lastOffenseAt?.toISOString() ?? null,
+    reset_at: view.resetAt?.toISOString() ?? null,
+    created_at: view.createdAt.toISOString(),
+  };
+}
+
+export async function getEndUserReputation(
+  orgId: string,
+  endUserId: string,
+  now: Date = new Date()
+): Promise<EndUserReputationView | null> {
+  const row = await prisma.endUserReputation.findUnique({
+    where: { orgId_endUserId: { orgId, endUserId } },
+  });
+  return row ? toReputationView(row, now) : null;
+}
+
+/**
+ * Risk tier of an end user; users without a record are "low".
+ */
+export async function getRiskTier(
+  orgId: string,
+  endUserId: string
+): Promise<RiskTier> {
+  const reputation = await getEndUserReputation(orgId, endUserId);
+  return reputation?.riskTier ?? "low";
+}
+
+/**
+ * `score` decayed to `now` in SQL, mirroring `decayScore()`, so pages can be
+ * ordered and filtered by the current score.
+ */
+function decayedScoreSql(now: Date): Prisma.Sql {
+  const nowSeconds = now.getTime() / 1000;
+  const halfLifeSeconds = HALF_LIFE_MS / 1000;
+  // Timestamps are stored as UTC, which EXTRACT(EPOCH) assumes
+  const elapsed = Prisma.sql`GREATEST(0, ${nowSeconds}::double precision - EXTRACT(EPOCH FROM "scoreUpdatedAt")::double precision)`;
+  return Prisma.sql`"score" * power(0.5, ${elapsed} / ${halfLifeSeconds}::double precision)`;
+}
+
+/**
+ * The org's end users, highest current score first. With `tier`, only users
+ * at that tier or above.
+ */
+export async function listEndUserReputations(
+  orgId: string,
+  options: { tier?: Exclude<RiskTier, "low">; limit: number; offset: number }
+): Promise<{ users: EndUserReputationView[]; total: number }> {
+  const now = new Date();
+  const decayed = decayedScoreSql(now);
+
+  // Stored scores are never below the decayed ones, so the stored score
+  // narrows the rows (and can use the index) before the current one decides
+  const minScore = options.tier ? RISK_TIER_SCORES[options.tier] : null;
+  const where =
+    minScore !== null
+      ? Prisma.sql`"orgId" = ${orgId} AND "score" >= ${minScore} AND ${decayed} >= ${minScore}`
+      : Prisma.sql`"orgId" = ${orgId}`;
+
+  const [page, [{ count }]] = await Promise.all([
+    prisma.$queryRaw<{ id: string }[]>`
+      SELECT "id" FROM "EndUserReputation"
+      WHERE ${where}
+      ORDER BY ${decayed} DESC, "lastSeenAt" DESC
+      LIMIT ${Math.min(options.limit, MAX_REPUTATION_PAGE_SIZE)}
+      OFFSET ${options.offset}`,
+    prisma.$queryRaw<{ count: bigint }[]>`
+      SELECT COUNT(*) AS "count" FROM "EndUserReputation" WHERE ${where}`,
+  ]);
+
+  const rows = await prisma.endUserReputation.findMany({
+    where: { id: { in: page.map((row) => row.id) } },
+  });
+  const rowsById = new Map(rows.map((row) => [row.id, row]));
+
+  return {
+    users: page.flatMap(({ id }) => {
+      const row = rowsById.get(id);
+      return row ? [toReputationView(row, now)] : [];
+    }),
+    total: Number(count),
+  };
+}
+
+/**
+ * Count one moderated text against its end user. Flags and blocks add
+ * offense points on top of the decayed score.
+ */
+export async function recordEndUserDecision(
+  orgId: string,
+  endUserId: string,
+  decision: ModerationDecision,
+  now: Date = new Date()
+): Promise<void> {
+  const points = OFFENSE_POINTS[decision];
+
+  // No score change: a single atomic upsert is enough
+  if (points === 0) {
+    await prisma.endUserReputation.upsert({
+      where: { orgId_endUserId: { orgId, endUserId } },
+      create: { orgId, endUserId, requestCount: 1, lastSeenAt: now },
+      update: { requestCount: { increment: 1 }, lastSeenAt: now },
+    });
+    return;
+  }
+
+  const offense = {
+    lastSeenAt: now,
+    lastOffenseAt: now,
+    scoreUpdatedAt: now,
+    flagCount: decision === "flag" ? 1 : 0,
+    blockCount: decision === "block" ? 1 : 0,
+  };
+
+  for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+    const row = await prisma.endUserReputation.findUnique({
+      where: { orgId_endUserId: { orgId, endUserId } },
+    });
+
+    if (!row) {
+      try {
+        await prisma.endUserReputation.create({
+          data: {
+            orgId,
+            endUserId,
+            score: points,
+            requestCount: 1,
+            ...offense,
+          },
+        });
+        return;
+      } catch (err) {
+        // Created by a concurrent request: update that row instead
+        if (
+          err instanceof Prisma.PrismaClientKnownRequestError &&
+          err.code === "P2002"
+        ) {
+          continue;
+        }
+        throw err;
+      }
+    }
+
+    // requestCount changes on every write, so it doubles as a row version
+    const { count } = await prisma.endUserReputation.updateMany({
+      where: { id: row.id, requestCount: row.requestCount },
+      data: {
+        ...offense,
+        score: currentScore(row, now) + points,
+        requestCount: { increment: 1 },
+        flagCount: { increment: offense.flagCount },
+        blockCount: { increment: offense.blockCount },
+      },
+    });
+    if (count === 1) return;
+  }
+
+  console.error(
+    `[CleanMod] Could not record a ${decision} for end user "${endUserId}" after ${MAX_UPDATE_ATTEMPTS} attempts`
+  );
+}
+
+/**
+ * Clear an end user's score and offense counts. Request counts are kept.
+ * Returns null when the org has no record of the user.
+ */
+export async function resetEndUserReputation(
+  orgId: string,
+  endUserId: string
+): Promise<EndUserReputationView | null> {
+  const now = new Date();
+  const { count } = await prisma.endUserReputation.updateMany({
+    where: { orgId, endUserId },
+    data: {
+      score: 0,
+      scoreUpdatedAt: now,
+      flagCount: 0,
+      blockCount: 0,
+      lastOffenseAt: null,
+      resetAt: now,
+    },
+  });
+  return count > 0 ? getEndUserReputation(orgId, endUserId, now) : null;
+}
@@ -0,0 +1,178 @@
+import crypto from "crypto";
+import { NextResponse } from "next/server";
+import { Prisma, type IdempotencyKey } from "@prisma/client";
+import { prisma } from "./db";
+
+/**
+ * `Idempotency-Key` support for the moderation endpoints, so a client that
+ * retries after a timeout is not moderated, logged and billed twice.
+ *
+ * The first request with a key claims it; its successful response is stored
+ * and replayed for IDEMPOTENCY_TTL_HOURS to any request with the same key and
+ * body. Failed requests release the key so they can be retried.
+ */
+
+export const IDEMPOTENCY_TTL_HOURS = 24;
+
+const IDEMPOTENCY_TTL_MS = IDEMPOTENCY_TTL_HOURS * 60 * 60 * 1000;
+
+// A claim older than this is from a request that never finished (e.g. the
+// instance died); a retry may take it over
+const PENDING_TIMEOUT_MS = 5 * 60 * 1000;
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+function hashRequest(endpoint: string, body: unknown): string {
+  return crypto
+    .createHash("sha256")
+    .update(`${endpoint}\n${JSON.stringify(body)}`)
+    .digest("hex");
+}
+
+function isStale(row: IdempotencyKey, now: Date): boolean {
+  return (
+    row.expiresAt <= now ||
+    (row.status === "pending" &&
+      now.getTime() - row.createdAt.getTime() > PENDING_TIMEOUT_MS)
+  );
+}
+
+/**
+ * Claim the key, or return the row of the request that already holds it.
+ */
+async function claimKey(
+  orgId: string,
+  key: string,
+  requestHash: string,
+  now: Date
+): Promise<{ claimed: IdempotencyKey } | { existing: IdempotencyKey }> {
+  // Two rounds: the second follows the removal of a stale claim
+  for (let attempt = 0; attempt < 2; attempt++) {
+    try {
+      const claimed = await prisma.idempotencyKey.create({
+        data: {
+          orgId,
+          key,
+          requestHash,
+          expiresAt: new Date(now.getTime() + IDEMPOTENCY_TTL_MS),
+        },
+      });
+      return { claimed };
+    } catch (err) {
+      if (
+        !(err instanceof Prisma.PrismaClientKnownRequestError) ||
+        err.code !== "P2002"
+      ) {
+        throw err;
+      }
+    }
+
+    const existing = await prisma.idempotencyKey.findUnique({
+      where: { orgId_key: { orgId, key } },
+    });
+    if (!existing) continue;
+    if (!isStale(existing, now)) return { existing };
+
+    await prisma.idempotencyKey.deleteMany({
+      where: { id: existing.id, createdAt: existing.createdAt },
+    });
+  }
+
+  throw new Error(`Could not claim Idempotency-Key "${key}"`);
+}
+
+/**
+ * Run `handler` once per `Idempotency-Key` header value (requests without the
+ * header always run). A repeat with the same body gets the stored response
+ * with an `Idempotent-Replayed: true` header; a repeat with a different body,
+ * or while the first request is still running, gets a 409.
+ */
+export async function withIdempotency(
+  req: Request,
+  orgId: string,
+  body: unknown,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  const key = req.headers.get("idempotency-key");
+  if (key === null) return handler();
+
+  if (key.length === 0 || key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+    return NextResponse.json(
+      {
+        error: `"Idempotency-Key" must be 1 to ${MAX_IDEMPOTENCY_KEY_LENGTH} characters.`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const now = new Date();
+  const requestHash = hashRequest(new URL(req.url).pathname, body);
+  const claim = await claimKey(orgId, key, requestHash, now);
+
+  if ("existing" in claim) {
+    const { existing } = claim;
+
+    if (existing.requestHash !== requestHash) {
+      return NextResponse.json(
+        {
+          error:
+            "This Idempotency-Key was already used with a different request. Use a new key for a new request.",
+        },
+        { status: 409 }
+      );
+    }
+
+    if (existing.status !== "completed") {
+      return NextResponse.json(
+        {
+          error:
+            "A request with this Idempotency-Key is still being processed. Retry once it has completed.",
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(existing.responseBody, {
+      status: existing.responseStatus ?? 200,
+      headers: { "Idempotent-Replayed": "true" },
+    });
+  }
+
+  const { claimed } = claim;
+  let response: Response;
+  try {
+    response = await handler();
+  } catch (err) {
+    await prisma.idempotencyKey.deleteMany({ where: { id: claimed.id } });
+    throw err;
+  }
+
+  // Only successful responses are replayed; after an error the client may
+  // retry with the same key
+  if (!response.ok) {
+    await prisma.idempotencyKey.deleteMany({ where: { id: claimed.id } });
+    return response;
+  }
+
+  try {
+    await prisma.idempotencyKey.updateMany({
+      where: { id: claimed.id },
+      data: {
+        status: "completed",
+        responseStatus: response.status,
+        responseBody: (await response.clone().json()) as Prisma.InputJsonValue,
+      },
+    });
+  } catch (err) {
+    console.error("[CleanMod] Failed to store idempotent response:", err);
+  }
+
+  // Housekeeping: drop the org's expired keys
+  await prisma.idempotencyKey
+    .deleteMany({ where: { orgId, expiresAt: { lte: now } } })
+    .catch((err) =>
+      console.error("[CleanMod] Failed to prune idempotency keys:", err)
+    );
+
+  return response;
+}
@@ -0,0 +1,382 @@
+import { Prisma, type ModerationJob } from "@prisma/client";
+import { prisma } from "./db";
+import {
+  callbackRetryDelayMs,
+  getCallbackSecret,
+  MAX_CALLBACK_ATTEMPTS,
+  postCallback,
+} from "./callbacks";
+import {
+  loadModerationSettings,
+  ModerationRequestError,
+  parseModerationInput,
+  prepareModeration,
+  recordEndUserOutcomes,
+  runModeration,
+  toModerationLogData,
+  toModerationResponse,
+  type ModerationOutcome,
+} from "./moderation-service";
+import { runShadowModeration } from "./shadow-mode";
+import {
+  overageFlags,
+  QuotaExceededError,
+  releaseQuota,
+  reserveQuota,
+  settleQuota,
+} from "./usage";
+
+/**
+ * DB-backed queue for async moderation (POST /api/v1/moderate/async).
+ *
+ * Jobs are rows in ModerationJob. Workers (`npm run worker`) claim a job by
+ * moving it from "queued" to "running" with a conditional update, so several
+ * workers can share the queue. Jobs that fail with a temporary error (5xx)
+ * are retried with backoff; a job whose worker died is picked up again once
+ * its lock times out, unless it has used up its attempts. Finished jobs with a `callback_url` get a signed
+ * callback, retried separately.
+ */
+
+export type JobStatus = "queued" | "running" | "completed" | "failed";
+
+// Attempts at moderating a job before it fails for good (temporary errors)
+export const MAX_JOB_ATTEMPTS = 3;
+const JOB_RETRY_BASE_MS = 10_000;
+
+// A "running" job older than this belonged to a worker that died
+const JOB_LOCK_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Jobs and callbacks a worker pass claims
+const WORKER_BATCH_SIZE = parseInt(
+  process.env.JOB_WORKER_BATCH_SIZE || "10",
+  10
+);
+
+type JobError = { status: number; error: string } & Record<string, unknown>;
+
+/**
+ * Queue a moderation request. `input` is the validated request body without
+ * `callback_url` (text, model, redact, context).
+ */
+export async function enqueueModerationJob(
+  apiKey: { id: string; orgId: string },
+  input: Record<string, unknown>,
+  callbackUrl: string | null
+): Promise<ModerationJob> {
+  // Create the secret now, so it can be set up before the first callback
+  if (callbackUrl) await getCallbackSecret(apiKey.orgId);
+
+  return prisma.moderationJob.create({
+    data: {
+      orgId: apiKey.orgId,
+      apiKeyId: apiKey.id,
+      input: input as Prisma.InputJsonValue,
+      callbackUrl,
+    },
+  });
+}
+
+export async function getModerationJob(
+  orgId: string,
+  jobId: string
+): Promise<ModerationJob | null> {
+  return prisma.moderationJob.findFirst({ where: { id: jobId, orgId } });
+}
+
+/**
+ * The job as returned by GET /api/v1/jobs/:id and sent to the callback URL.
+ */
+export function toJobResponse(job: ModerationJob) {
+  return {
+    id: job.id,
+    status: job.status as JobStatus,
+    result: job.result ?? null,
+    error: job.error ?? null,
+    attempts: job.attempts,
+    created_at: job.createdAt.toISOString(),
+    completed_at: job.completedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * The job response plus its callback delivery state.
+ */
+export function toJobStatusResponse(job: ModerationJob) {
+  return {
+    ...toJobResponse(job),
+    callback: job.callbackUrl
+      ? {
+          url: job.callbackUrl,
+          status: job.callbackStatus,
+          attempts: job.callbackAttempts,
+          last_error: job.callbackError,
+        }
+      : null,
+  };
+}
+
+function toJobError(err: unknown): JobError {
+  if (err instanceof QuotaExceededError) {
+    return { status: 429, error: err.message, ...err.details };
+  }
+  if (err instanceof ModerationRequestError) {
+    return { status: err.status, error: err.message, ...err.details };
+  }
+  console.error("[CleanMod] Moderation job error:", err);
+  return { status: 500, error: "Internal server error." };
+}
+
+/**
+ * Claim the next job that is due, or a running job whose lock timed out and
+ * that has attempts left.
+ */
+async function claimNextJob(now: Date): Promise<ModerationJob | null> {
+  const candidates = await prisma.moderationJob.findMany({
+    where: {
+      OR: [
+        { status: "queued", runAfter: { lte: now } },
+        {
+          status: "running",
+          lockedAt: { lt: new Date(now.getTime() - JOB_LOCK_TIMEOUT_MS) },
+          attempts: { lt: MAX_JOB_ATTEMPTS },
+        },
+      ],
+    },
+    orderBy: { runAfter: "asc" },
+    take: WORKER_BATCH_SIZE,
+  });
+
+  for (const job of candidates) {
+    // Another worker may have claimed it since: match the state we read
+    const { count } = await prisma.moderationJob.updateMany({
+      where: { id: job.id, status: job.status, lockedAt: job.lockedAt },
+      data: { status: "running", lockedAt: now, attempts: { increment: 1 } },
+    });
+    if (count === 1) {
+      return {
+        ...job,
+        status: "running",
+        lockedAt: now,
+        attempts: job.attempts + 1,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Moderate a job's input like POST /api/v1/moderate: reserve quota, run the
+ * moderation core, and log and charge the result together.
+ */
+async function moderateJob(job: ModerationJob) {
+  // The key may have been deactivated while the job was queued
+  const apiKey = await prisma.apiKey.findFirst({
+    where: { id: job.apiKeyId, isActive: true },
+    include: { organization: true },
+  });
+  if (!apiKey) {
+    throw new ModerationRequestError("Invalid or inactive API key.", 401);
+  }
+  const org = apiKey.organization;
+
+  const settings = await loadModerationSettings(org, apiKey.id);
+  const prepared = prepareModeration(settings, parseModerationInput(job.input));
+
+  const now = new Date();
+  const reservation = await reserveQuota(org.id, 1, now);
+
+  let outcome: ModerationOutcome;
+  let log: { id: string; createdAt: Date; overage: boolean };
+  try {
+    outcome = await runModeration(settings, prepared);
+
+    const charged = !outcome.cached || reservation.countCachedHits;
+    const [overage] = overageFlags(reservation, [charged]);
+    log = await prisma.$transaction(async (tx) => {
+      const created = await tx.moderationLog.create({
+        data: {
+          ...toModerationLogData(settings, apiKey.id, outcome),
+          overage,
+        },
+      });
+      await settleQuota(reservation, charged ? 1 : 0, tx);
+      return created;
+    });
+  } catch (err) {
+    await releaseQuota(reservation);
+    throw err;
+  }
+
+  await recordEndUserOutcomes(settings, [outcome]);
+  if (org.shadowModel) {
+    await runShadowModeration(settings, [{ outcome, logId: log.id }]);
+  }
+
+  return {
+    logId: log.id,
+    result: toModerationResponse(settings, outcome, log),
+  };
+}
+
+/**
+ * Run a claimed job and store its result. Temporary failures go back in the
+ * queue until MAX_JOB_ATTEMPTS; the input text is dropped once the job is
+ * finished either way.
+ */
+async function processJob(job: ModerationJob): Promise<void> {
+  let data: Prisma.ModerationJobUpdateManyMutationInput;
+  try {
+    const { logId, result } = await moderateJob(job);
+    data = { status: "completed", result, error: Prisma.DbNull, logId };
+  } catch (err) {
+    const error = toJobError(err) as Prisma.InputJsonObject &
+      Pick<JobError, "status">;
+    if (error.status >= 500 && job.attempts < MAX_JOB_ATTEMPTS) {
+      await prisma.moderationJob.updateMany({
+        where: { id: job.id, lockedAt: job.lockedAt },
+        data: {
+          status: "queued",
+          lockedAt: null,
+          error,
+          runAfter: new Date(
+            Date.now() + JOB_RETRY_BASE_MS * 2 ** (job.attempts - 1)
+          ),
+        },
+      });
+      return;
+    }
+    data = { status: "failed", error };
+  }
+
+  await finishJob(job, data);
+}
+
+/**
+ * Store a claimed job's final state, drop its input and queue its callback.
+ */
+async function finishJob(
+  job: ModerationJob,
+  data: Prisma.ModerationJobUpdateManyMutationInput
+): Promise<void> {
+  const now = new Date();
+  await prisma.moderationJob.updateMany({
+    where: { id: job.id, lockedAt: job.lockedAt },
+    data: {
+      ...data,
+      input: Prisma.DbNull,
+      lockedAt: null,
+      completedAt: now,
+      ...(job.callbackUrl && {
+        callbackStatus: "pending",
+        nextCallbackAt: now,
+      }),
+    },
+  });
+}
+
+/**
+ * Fail the running jobs whose lock timed out on their last attempt: their
+ * worker died every time, so the input is not retried again.
+ */
+async function failAbandonedJobs(now: Date): Promise<void> {
+  const abandoned = await prisma.moderationJob.findMany({
+    where: {
+      status: "running",
+      lockedAt: { lt: new Date(now.getTime() - JOB_LOCK_TIMEOUT_MS) },
+      attempts: { gte: MAX_JOB_ATTEMPTS },
+    },
+    take: WORKER_BATCH_SIZE,
+  });
+
+  for (const job of abandoned) {
+    const error: JobError = {
+      status: 500,
+      error: "The job did not finish after repeated attempts.",
+    };
+    await finishJob(job, {
+      status: "failed",
+      error: error as Prisma.InputJsonObject,
+    });
+  }
+}
+
+/**
+ * Deliver one due callback. The attempt is claimed first (by pushing
+ * `nextCallbackAt` past the request timeout), so workers never send the same
+ * attempt twice.
+ */
+async function deliverCallback(job: ModerationJob, now: Date): Promise<void> {
+  const attempts = job.callbackAttempts + 1;
+  const { count } = await prisma.moderationJob.updateMany({
+    where: {
+      id: job.id,
+      callbackStatus: "pending",
+      callbackAttempts: job.callbackAttempts,
+    },
+    data: {
+      callbackAttempts: attempts,
+      nextCallbackAt: new Date(now.getTime() + callbackRetryDelayMs(attempts)),
+    },
+  });
+  if (count === 0 || !job.callbackUrl) return;
+
+  const secret = await getCallbackSecret(job.orgId);
+  const delivery = await postCallback(
+    job.callbackUrl,
+    secret,
+    toJobResponse(job)
+  );
+
+  await prisma.moderationJob.update({
+    where: { id: job.id },
+    data: delivery.delivered
+      ? {
+          callbackStatus: "delivered",
+          callbackError: null,
+          nextCallbackAt: null,
+        }
+      : {
+          callbackError: delivery.error,
+          ...(attempts >= MAX_CALLBACK_ATTEMPTS && {
+            callbackStatus: "failed",
+            nextCallbackAt: null,
+          }),
+        },
+  });
+}
+
+/**
+ * One worker pass: run the jobs that are due, then the callbacks that are
+ * due. Returns how much work was done, so a worker loop knows when to sleep.
+ */
+export async function runWorkerOnce(): Promise<{
+  jobs: number;
+  callbacks: number;
+}> {
+  await failAbandonedJobs(new Date());
+
+  let jobs = 0;
+  while (jobs < WORKER_BATCH_SIZE) {
+    const job = await claimNextJob(new Date());
+    if (!job) break;
+    await processJob(job);
+    jobs++;
+  }
+
+  const now = new Date();
+  const dueCallbacks = await prisma.moderationJob.findMany({
+    where: { callbackStatus: "pending", nextCallbackAt: { lte: now } },
+    orderBy: { nextCallbackAt: "asc" },
+    take: WORKER_BATCH_SIZE,
+  });
+  for (const job of dueCallbacks) {
+    try {
+      await deliverCallback(job, now);
+    } catch (err) {
+      console.error(`[CleanMod] Callback for job ${job.id} failed:`, err);
+    }
+  }
+
+  return { jobs, callbacks: dueCallbacks.length };
+}
@@ -0,0 +1,708 @@
+import crypto from "crypto";
+import type { Organization, Prisma } from "@prisma/client";
+import { AuthenticationError } from "./moderation/provider";
+import {
+  moderateText,
+  resolveModelKey,
+  UnknownModelError,
+  UnsupportedLanguageError,
+} from "./moderation/router";
+import { buildInputPreview } from "./moderation/inputPreview";
+import { normalizeText } from "./moderation/normalize";
+import { redactPii } from "./moderation/pii";
+import { detectLanguage, type DetectedLanguage } from "./moderation/language";
+import type { TermListEntry } from "./moderation/termLists";
+import {
+  assignRolloutArm,
+  selectRollout,
+  type ModelRolloutConfig,
+  type RolloutAssignment,
+} from "./moderation/rollout";
+import {
+  DECISION_SEVERITY,
+  policyForSource,
+  SOURCE_PATTERN,
+} from "./moderation/policy";
+import { escalateForRiskTier } from "./moderation/reputation";
+import {
+  buildContextWindow,
+  withThreadContext,
+  type ConversationTurn,
+} from "./moderation/conversation";
+import type {
+  ModerationDecision,
+  NormalizedModerationResult,
+  RiskTier,
+} from "./moderation/types";
+import { getActivePolicy, type ActivePolicy } from "./policies";
+import { getTermLists } from "./term-lists";
+import { getRollouts } from "./rollouts";
+import { getPlanModels } from "./usage";
+import { prisma } from "./db";
+import { getRiskTier, recordEndUserDecision } from "./end-user-reputation";
+import {
+  buildVerdictCacheKey,
+  cacheVerdict,
+  getCachedVerdict,
+} from "./verdict-cache";
+
+const HASH_ALGO = "sha256";
+
+// Longest accepted `text`; longer texts are chunked for the provider, but
+// every local detector still scans the whole text
+export const MAX_TEXT_LENGTH = parseInt(
+  process.env.MAX_TEXT_LENGTH || "100000",
+  10
+);
+
+// Size limits for the request `context` object
+const MAX_CONTEXT_USER_ID_LENGTH = 256;
+const MAX_CONTEXT_METADATA_BYTES = 4096;
+const CONTEXT_FIELDS = ["source", "user_id", "metadata"];
+
+/**
+ * A moderation request that can't be served, with the HTTP status and any
+ * extra fields for the error body.
+ */
+export class ModerationRequestError extends Error {
+  status: number;
+  details?: Record<string, unknown>;
+
+  constructor(
+    message: string,
+    status: number,
+    details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = "ModerationRequestError";
+    this.status = status;
+    this.details = details;
+  }
+}
+
+/**
+ * What to answer when every provider in the failover chain is down:
+ * - error:   503, the caller decides (default)
+ * - open:    allow the text (fail-open)
+ * - closed:  block the text (fail-closed)
+ * - lexical: score the text with the local lexical scorer (English only)
+ */
+export type FailureMode = "error" | "open" | "closed" | "lexical";
+
+export const FAILURE_MODES: FailureMode[] = [
+  "error",
+  "open",
+  "closed",
+  "lexical",
+];
+
+/**
+ * Where the text came from, as sent in the request's `context` object.
+ */
+export type ModerationContext = {
+  source: string | null; // e.g. "comment", "username"
+  userId: string | null; // the caller's end-user ID
+  metadata: Record<string, unknown> | null;
+};
+
+export type ModerationInput = {
+  text: string;
+  model?: unknown; // validated by resolveModelKey
+  redact: boolean;
+  context: ModerationContext;
+};
+
+/**
+ * Org-level settings shared by every text moderated in one API request.
+ */
+export type OrgModerationSettings = {
+  org: Organization;
+  apiKeyId: string | null;
+  policy: ActivePolicy;
+  terms: TermListEntry[];
+  rollouts: ModelRolloutConfig[];
+  planModels: string[]; // model keys the org's plan includes
+};
+
+export type PreparedModeration = ModerationInput & {
+  modelKey: string;
+  language: DetectedLanguage;
+  rollout: RolloutAssignment | null; // model rollout arm, if one applied
+};
+
+export type ModerationOutcome = PreparedModeration & {
+  result: NormalizedModerationResult;
+  inputHash: string;
+  inputPreview: string | null;
+  redactedText: string | null;
+  cached: boolean; // verdict served from the verdict cache
+  riskTier: RiskTier | null; // end user's tier before this text, with a user_id
+  // Decision before risk-tier escalation: what the end user's reputation
+  // records, so an escalated verdict doesn't compound into more points
+  offenseDecision: ModerationDecision;
+};
+
+function hashInput(text: string): string {
+  return crypto.createHash(HASH_ALGO).update(text).digest("hex");
+}
+
+// The `inputHash` runModeration() logs for `text`
+function logInputHash(org: Organization, text: string): string {
+  return hashInput(org.normalizeInput ? normalizeText(text).canonical : text);
+}
+
+/**
+ * Validate the moderation fields of a request body (or one batch item).
+ */
+export function parseModerationInput(value: unknown): ModerationInput {
+  const body = (value && typeof value === "object" ? value : {}) as Record<
+    string,
+    unknown
+  >;
+
+  const text = body.text;
+  if (typeof text !== "string" || text.trim().length === 0) {
+    throw new ModerationRequestError(
+      'Missing or invalid "text" field in request body.',
+      400
+    );
+  }
+  if (text.length > MAX_TEXT_LENGTH) {
+    throw new ModerationRequestError(
+      `"text" must be at most ${MAX_TEXT_LENGTH.toLocaleString(
+        "en-US"
+      )} characters.`,
+      400,
+      { max_length: MAX_TEXT_LENGTH }
+    );
+  }
+
+  const redact = body.redact ?? false;
+  if (typeof redact !== "boolean") {
+    throw new ModerationRequestError('"redact" must be a boolean.', 400);
+  }
+
+  return {
+    text,
+    model: body.model,
+    redact,
+    context: parseModerationContext(body.context),
+  };
+}
+
+/**
+ * Validate the optional `context` object: `source` is a short slug,
+ * `user_id` an opaque string and `metadata` a small JSON object.
+ */
+function parseModerationContext(value: unknown): ModerationContext {
+  if (value === undefined || value === null) {
+    return { source: null, userId: null, metadata: null };
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new ModerationRequestError('"context" must be an object.', 400);
+  }
+
+  const context = value as Record<string, unknown>;
+  const unknownField = Object.keys(context).find(
+    (key) => !CONTEXT_FIELDS.includes(key)
+  );
+  if (unknownField) {
+    throw new ModerationRequestError(
+      `Unknown field "context.${unknownField}". Put custom data in "context.metadata".`,
+      400
+    );
+  }
+
+  const source = context.source ?? null;
+  if (
+    source !== null &&
+    (typeof source !== "string" || !SOURCE_PATTERN.test(source))
+  ) {
+    throw new ModerationRequestError(
+      '"context.source" must be a lowercase slug of up to 64 characters (letters, digits, "_", "-", ".").',
+      400
+    );
+  }
+
+  const userId = context.user_id ?? null;
+  if (
+    userId !== null &&
+    (typeof userId !== "string" ||
+      userId.length === 0 ||
+      userId.length > MAX_CONTEXT_USER_ID_LENGTH)
+  ) {
+    throw new ModerationRequestError(
+      `"context.user_id" must be a non-empty string of up to ${MAX_CONTEXT_USER_ID_LENGTH} characters.`,
+      400
+    );
+  }
+
+  const metadata = context.metadata ?? null;
+  if (
+    metadata !== null &&
+    (typeof metadata !== "object" || Array.isArray(metadata))
+  ) {
+    throw new ModerationRequestError(
+      '"context.metadata" must be an object.',
+      400
+    );
+  }
+  if (
+    metadata !== null &&
+    Buffer.byteLength(JSON.stringify(metadata)) > MAX_CONTEXT_METADATA_BYTES
+  ) {
+    throw new ModerationRequestError(
+      `"context.metadata" must be at most ${MAX_CONTEXT_METADATA_BYTES} bytes as JSON.`,
+      400
+    );
+  }
+
+  return {
+    source,
+    userId,
+    metadata: metadata as Record<string, unknown> | null,
+  };
+}
+
+/**
+ * Load the org's active policy, term lists, model rollouts and plan models.
+ */
+export async function loadModerationSettings(
+  org: Organization,
+  apiKeyId: string | null = null
+): Promise<OrgModerationSettings> {
+  // Org policy supplies thresholds and the default model
+  const [policy, terms, rollouts, planModels] = await Promise.all([
+    getActivePolicy(org.id),
+    getTermLists(org.id),
+    getRollouts(org.id),
+    getPlanModels(org.id),
+  ]);
+  return { org, apiKeyId, policy, terms, rollouts, planModels };
+}
+
+/**
+ * Apply the model rollout for `modelKey`, if any. Texts the treatment model
+ * can't serve (unsupported language, model removed or off the org's plan)
+ * stay out of the rollout, so both arms see the same kind of traffic.
+ */
+function applyRollout(
+  settings: OrgModerationSettings,
+  input: ModerationInput,
+  modelKey: string,
+  language: DetectedLanguage
+): { modelKey: string; rollout: RolloutAssignment | null } {
+  const rollout = selectRollout(settings.rollouts, settings.apiKeyId, modelKey);
+  if (!rollout) return { modelKey, rollout: null };
+
+  let treatmentModel: string;
+  try {
+    treatmentModel = resolveModelKey(rollout.toModel, undefined, language);
+  } catch {
+    return { modelKey, rollout: null };
+  }
+  if (!settings.planModels.includes(treatmentModel)) {
+    return { modelKey, rollout: null };
+  }
+
+  const arm = assignRolloutArm(rollout, {
+    text: input.text,
+    userId: input.context.userId,
+  });
+  return {
+    modelKey: arm === "treatment" ? treatmentModel : modelKey,
+    rollout: { id: rollout.id, arm },
+  };
+}
+
+/**
+ * Detect the language and resolve the model for one input. Runs before the
+ * quota check, so invalid requests are rejected without being charged.
+ */
+export function prepareModeration(
+  settings: OrgModerationSettings,
+  input: ModerationInput
+): PreparedModeration {
+  // Offline language ID decides which model can serve the text. Homoglyphs
+  // ("уоu аrе аn іdіоt" in Cyrillic letters) look like another script, so the
+  // canonical form is checked too and the more confident call wins
+  const raw = detectLanguage(input.text);
+  const canonical = detectLanguage(normalizeText(input.text).canonical);
+  const language = canonical.confidence > raw.confidence ? canonical : raw;
+
+  let prepared: PreparedModeration;
+  try {
+    const modelKey = resolveModelKey(
+      input.model,
+      settings.policy.defaultModel,
+      language,
+      settings.planModels
+    );
+    prepared = {
+      ...input,
+      ...applyRollout(settings, input, modelKey, language),
+      language,
+    };
+  } catch (err) {
+    if (err instanceof UnknownModelError) {
+      throw new ModerationRequestError(err.message, 400);
+    }
+    if (err instanceof UnsupportedLanguageError) {
+      throw new ModerationRequestError(err.message, 400, { language });
+    }
+    throw err;
+  }
+
+  // The model that will actually serve the text, after language routing and
+  // rollouts, must be on the org's plan
+  if (!settings.planModels.includes(prepared.modelKey)) {
+    throw new ModerationRequestError(
+      `Your plan does not include model "${prepared.modelKey}". Upgrade your CleanMod plan to use it.`,
+      403,
+      { model: prepared.modelKey, models_allowed: settings.planModels }
+    );
+  }
+
+  return prepared;
+}
+
+/**
+ * Handle a moderation core failure according to the org's failure mode:
+ * throw a 503 with a generic message (to avoid leaking implementation
+ * details), or return a degraded allow/block verdict.
+ */
+function handleProviderFailure(
+  org: Organization,
+  err: unknown,
+  language: DetectedLanguage
+): NormalizedModerationResult {
+  // Check if this is a provider authentication error using type-safe instanceof
+  if (err instanceof AuthenticationError) {
+    console.error("Moderation provider authentication error:", err);
+  } else {
+    // For other provider errors (network, service unavailable, invalid response, etc.)
+    console.error("Moderation provider error:", err);
+  }
+
+  const failureMode = FAILURE_MODES.includes(org.failureMode as FailureMode)
+    ? (org.failureMode as FailureMode)
+    : "error";
+
+  // With "lexical" the router already answered provider outages, so this is
+  // some other failure
+  if (failureMode === "error" || failureMode === "lexical") {
+    throw new ModerationRequestError(
+      err instanceof AuthenticationError
+        ? "Moderation service authentication failed. Please contact support."
+        : "Moderation service is temporarily unavailable. Please try again later.",
+      503
+    );
+  }
+
+  const decision = failureMode === "closed" ? "block" : "allow";
+  return {
+    overall_score: 0,
+    is_toxic: decision === "block",
+    categories: {},
+    provider: "none",
+    providerModel: "none",
+    decision,
+    threshold: 0,
+    rule: null,
+    degraded: true,
+    failure_mode: failureMode,
+    language,
+  };
+}
+
+/**
+ * Call the moderation core for one prepared input, or reuse a cached verdict
+ * for the same text, model and policy. With `scoresOnly`, term lists, PII and
+ * spam are left out (see ModerationOptions).
+ */
+export async function runModeration(
+  settings: OrgModerationSettings,
+  prepared: PreparedModeration,
+  { scoresOnly = false }: { scoresOnly?: boolean } = {}
+): Promise<ModerationOutcome> {
+  const { org, policy, terms } = settings;
+  const { text, modelKey, language, redact, context } = prepared;
+
+  // Canonical (de-obfuscated) form, if the org opted in
+  const normalized = org.normalizeInput ? normalizeText(text) : null;
+  const sourcePolicy = policyForSource(policy.config, context.source);
+
+  const cacheKey = buildVerdictCacheKey({
+    orgId: org.id,
+    textHash: hashInput(text),
+    modelKey,
+    policyVersion: policy.version,
+    // Term list entries are immutable, so their ids identify the list state;
+    // the source picks the policy's source overrides
+    variant: `${org.normalizeInput}:${
+      scoresOnly ? "scores-only" : terms.map((t) => t.id).join(",")
+    }:${context.source ?? ""}`,
+  });
+
+  let result = await getCachedVerdict(cacheKey);
+  const cached = result !== null;
+
+  try {
+    result ??= await moderateText(text, modelKey, {
+      policy: sourcePolicy,
+      terms,
+      normalized,
+      language,
+      lexicalFallback: org.failureMode === "lexical",
+      scoresOnly,
+    });
+  } catch (err) {
+    result = handleProviderFailure(org, err, language);
+  }
+
+  // Only cache verdicts from the model's own provider
+  if (!cached && !result.fallback && !result.degraded) {
+    await cacheVerdict(cacheKey, result);
+  }
+
+  // Repeat offenders get stricter thresholds (after caching: the cached
+  // verdict must not depend on the user)
+  const riskTier = context.userId
+    ? await getRiskTier(org.id, context.userId)
+    : null;
+  const offenseDecision = result.decision;
+  if (riskTier) result = escalateForRiskTier(result, sourcePolicy, riskTier);
+
+  // Masked copy of the input, only when the caller asked for it
+  const redactedText = redact ? redactPii(text, result.pii ?? []) : null;
+
+  return {
+    ...prepared,
+    result,
+    // With normalization on, obfuscated variants of the same text share a hash
+    inputHash: hashInput(normalized ? normalized.canonical : text),
+    // Only compute and store inputPreview if org has enabled it
+    // (from the redacted text when the caller asked for redaction)
+    inputPreview:
+      org.storeInputPreview === true
+        ? buildInputPreview(redactedText ?? text)
+        : null,
+    redactedText,
+    cached,
+    riskTier,
+    offenseDecision,
+  };
+}
+
+/**
+ * Score the final message of a conversation again as part of a transcript of
+ * the earlier turns (same model, language and end user), and keep the more
+ * severe of the two verdicts. The transcript gets model scores only: term
+ * list, PII and spam hits in earlier turns belong to those messages, not to
+ * the final one.
+ */
+export async function runThreadContextModeration(
+  settings: OrgModerationSettings,
+  final: ModerationOutcome,
+  turns: ConversationTurn[]
+): Promise<ModerationOutcome> {
+  const window = buildContextWindow(turns);
+
+  // A single-message thread has no context to add
+  if (window.messages === 1) {
+    return {
+      ...final,
+      result: withThreadContext(final.result, final.result, 1),
+    };
+  }
+
+  const inContext = await runModeration(
+    settings,
+    {
+      text: window.text,
+      model: final.model,
+      redact: false,
+      context: final.context,
+      modelKey: final.modelKey,
+      language: final.language,
+      rollout: final.rollout,
+    },
+    { scoresOnly: true }
+  );
+
+  return {
+    ...final,
+    result: withThreadContext(final.result, inContext.result, window.messages),
+    // The context verdict counts against the author too, unescalated
+    offenseDecision:
+      !inContext.result.degraded &&
+      DECISION_SEVERITY[inContext.offenseDecision] >
+        DECISION_SEVERITY[final.offenseDecision]
+        ? inContext.offenseDecision
+        : final.offenseDecision,
+  };
+}
+
+export type LoggedOutcome = {
+  outcome: ModerationOutcome;
+  log: { id: string; createdAt: Date; overage: boolean };
+};
+
+/**
+ * The verdict already logged for each prepared input: the latest log of the
+ * same text by the same end user, source and policy version, or null. Used
+ * for the earlier turns of a conversation, which clients resend with every
+ * new message.
+ */
+export async function findLoggedOutcomes(
+  settings: OrgModerationSettings,
+  prepared: PreparedModeration[]
+): Promise<(LoggedOutcome | null)[]> {
+  const hashes = prepared.map((item) => logInputHash(settings.org, item.text));
+  const userIds = prepared
+    .map((item) => item.context.userId)
+    .filter((id): id is string => id !== null);
+  if (userIds.length === 0) return prepared.map(() => null);
+
+  const logs = await prisma.moderationLog.findMany({
+    where: {
+      orgId: settings.org.id,
+      endUserId: { in: userIds },
+      inputHash: { in: hashes },
+      policyVersion: settings.policy.version,
+    },
+    orderBy: { createdAt: "desc" },
+    select: {
+      id: true,
+      createdAt: true,
+      overage: true,
+      inputHash: true,
+      inputPreview: true,
+      endUserId: true,
+      source: true,
+      normalized: true,
+    },
+  });
+
+  return prepared.map((item, i) => {
+    const log = logs.find(
+      (row) =>
+        row.inputHash === hashes[i] &&
+        row.endUserId === item.context.userId &&
+        row.source === item.context.source
+    );
+    if (!log) return null;
+
+    const result = log.normalized as unknown as NormalizedModerationResult;
+    return {
+      outcome: {
+        ...item,
+        result,
+        inputHash: log.inputHash,
+        inputPreview: log.inputPreview,
+        redactedText: item.redact
+          ? redactPii(item.text, result.pii ?? [])
+          : null,
+        cached: false,
+        riskTier: null,
+        offenseDecision: result.escalation?.from ?? result.decision,
+      },
+      log: { id: log.id, createdAt: log.createdAt, overage: log.overage },
+    };
+  });
+}
+
+/**
+ * Update the reputations of the end users behind logged outcomes, from the
+ * decisions before risk-tier escalation. Degraded verdicts (every provider
+ * down) say nothing about the user and are skipped.
+ */
+export async function recordEndUserOutcomes(
+  settings: OrgModerationSettings,
+  outcomes: ModerationOutcome[]
+): Promise<void> {
+  for (const outcome of outcomes) {
+    const userId = outcome.context.userId;
+    if (!userId || outcome.result.degraded) continue;
+    await recordEndUserDecision(
+      settings.org.id,
+      userId,
+      outcome.offenseDecision
+    );
+  }
+}
+
+/**
+ * The `ModerationLog` row for one outcome.
+ */
+export function toModerationLogData(
+  settings: OrgModerationSettings,
+  apiKeyId: string,
+  outcome: ModerationOutcome
+): Prisma.ModerationLogCreateManyInput {
+  const { result } = outcome;
+  return {
+    orgId: settings.org.id,
+    apiKeyId,
+    provider: result.provider,
+    model: result.providerModel,
+    inputHash: outcome.inputHash,
+    inputPreview: outcome.inputPreview,
+    // Per-member scores for ensemble models
+    rawScore: (result.ensemble ?? {}) as Prisma.InputJsonValue,
+    normalized: result as unknown as Prisma.InputJsonValue,
+    decision: result.decision,
+    policyVersion: settings.policy.version,
+    language: outcome.language.code,
+    languageConfidence: outcome.language.confidence,
+    cached: outcome.cached,
+    rolloutId: outcome.rollout?.id ?? null,
+    rolloutArm: outcome.rollout?.arm ?? null,
+    source: outcome.context.source,
+    endUserId: outcome.context.userId,
+    ...(outcome.context.metadata && {
+      contextMetadata: outcome.context.metadata as Prisma.InputJsonValue,
+    }),
+  };
+}
+
+/**
+ * The public API response body for one logged outcome.
+ */
+export function toModerationResponse(
+  settings: OrgModerationSettings,
+  outcome: ModerationOutcome,
+  log: { id: string; createdAt: Date; overage: boolean }
+) {
+  const { result } = outcome;
+  return {
+    id: log.id,
+    model: outcome.modelKey,
+    provider: result.provider,
+    providerModel: result.providerModel,
+    decision: result.decision,
+    overall_score: result.overall_score,
+    threshold: result.threshold,
+    rule: result.rule ?? null,
+    fallback: result.fallback ?? false,
+    degraded: result.degraded ?? false,
+    failure_mode: result.failure_mode ?? null,
+    policy_version: settings.policy.version,
+    matched_terms: result.matched_terms ?? [],
+    normalization: result.normalization ?? null,
+    pii: result.pii ?? [],
+    language: outcome.language,
+    segments: result.segments ?? [],
+    ensemble: result.ensemble ?? null,
+    risk_tier: outcome.riskTier,
+    escalation: result.escalation ?? null,
+    cached: outcome.cached,
+    overage: log.overage,
+    rollout: outcome.rollout,
+    ...(outcome.redactedText !== null && {
+      redacted_text: outcome.redactedText,
+    }),
+    categories: result.categories,
+    created_at: log.createdAt.toISOString(),
+  };
+}
@@ -0,0 +1,152 @@
+// src/lib/moderation/chunking.ts
+
+import type {
+  ModerationSegment,
+  NormalizedCategories,
+  NormalizedModerationResult,
+} from "./types";
+import type { ModerationProvider } from "./provider";
+import { mapWithConcurrency } from "./concurrency";
+import { callWithResilience, type ResiliencePolicy } from "./resilience";
+
+/**
+ * Sentence-aware chunking for long texts. Models truncate (or average away)
+ * anything past their token limit, so long inputs are split into chunks that
+ * fit, moderated concurrently, and aggregated by taking the worst chunk.
+ */
+
+export type TextChunk = {
+  text: string;
+  start: number; // offset into the original text
+  end: number;
+};
+
+// Conservative chars-per-token estimate: subword tokenizers average ~4 chars
+// per token on English, less on other scripts
+const CHARS_PER_TOKEN = 3;
+
+// Chunks in flight per request, so one long post can't flood the provider
+const MAX_CONCURRENT_CHUNKS = 4;
+
+const sentenceSegmenter = new Intl.Segmenter(undefined, {
+  granularity: "sentence",
+});
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Split a single over-long sentence at whitespace (or hard, when there is
+ * none) into pieces of at most `maxChars`.
+ */
+function splitLongSentence(
+  sentence: string,
+  offset: number,
+  maxChars: number
+): TextChunk[] {
+  const pieces: TextChunk[] = [];
+  let start = 0;
+
+  while (start < sentence.length) {
+    let end = Math.min(start + maxChars, sentence.length);
+    if (end < sentence.length) {
+      const lastSpace = sentence.lastIndexOf(" ", end);
+      if (lastSpace > start) end = lastSpace + 1;
+    }
+    pieces.push({
+      text: sentence.slice(start, end),
+      start: offset + start,
+      end: offset + end,
+    });
+    start = end;
+  }
+
+  return pieces;
+}
+
+/**
+ * Split `text` into chunks of whole sentences that each fit in `maxTokens`.
+ * Short texts come back as a single chunk.
+ */
+export function splitIntoChunks(text: string, maxTokens: number): TextChunk[] {
+  if (estimateTokens(text) <= maxTokens) {
+    return [{ text, start: 0, end: text.length }];
+  }
+
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const chunks: TextChunk[] = [];
+  let current: TextChunk | null = null;
+
+  for (const { segment, index } of sentenceSegmenter.segment(text)) {
+    const pieces =
+      segment.length > maxChars
+        ? splitLongSentence(segment, index, maxChars)
+        : [{ text: segment, start: index, end: index + segment.length }];
+
+    for (const piece of pieces) {
+      if (current && current.text.length + piece.text.length <= maxChars) {
+        current = {
+          text: current.text + piece.text,
+          start: current.start,
+          end: piece.end,
+        };
+      } else {
+        if (current) chunks.push(current);
+        current = piece;
+      }
+    }
+  }
+  if (current) chunks.push(current);
+
+  // Whitespace-only chunks carry nothing to moderate
+  return chunks.filter((chunk) => chunk.text.trim().length > 0);
+}
+
+/**
+ * Moderate `text` chunk by chunk and aggregate: each category takes its
+ * highest chunk score, so one abusive sentence is not diluted by a long,
+ * harmless post. Returns the per-chunk scores as `segments`.
+ * Each chunk's provider call runs with the model's resilience policy.
+ */
+export async function moderateInChunks(
+  provider: ModerationProvider,
+  text: string,
+  modelKey: string,
+  maxTokens: number,
+  resilience: ResiliencePolicy
+): Promise<NormalizedModerationResult> {
+  const chunks = splitIntoChunks(text, maxTokens);
+  const results = await mapWithConcurrency(
+    chunks,
+    MAX_CONCURRENT_CHUNKS,
+    (chunk) =>
+      callWithResilience(
+        (signal) => provider.moderate(chunk.text, modelKey, signal),
+        resilience
+      )
+  );
+
+  const segments: ModerationSegment[] = chunks.map((chunk, i) => ({
+    start: chunk.start,
+    end: chunk.end,
+    overall_score: results[i].overall_score,
+    categories: results[i].categories,
+  }));
+
+  const categories: NormalizedCategories = {};
+  for (const result of results) {
+    for (const [category, score] of Object.entries(result.categories) as [
+      keyof NormalizedCategories,
+      number
+    ][]) {
+      categories[category] = Math.max(categories[category] ?? 0, score);
+    }
+  }
+
+  const worst = results.reduce((a, b) =>
+    b.overall_score > a.overall_score ? b : a
+  );
+
+  return { ...worst, categories, segments };
+}
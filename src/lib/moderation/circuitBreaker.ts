@@ -0,0 +1,76 @@
+// src/lib/moderation/circuitBreaker.ts
+
+import type { ProviderName } from "./provider";
+
+/**
+ * Per-provider circuit breaker (in-process). After CIRCUIT_FAILURE_THRESHOLD
+ * consecutive failures the circuit opens and the router skips the provider
+ * for CIRCUIT_COOLDOWN_MS. After the cool-down one trial request goes through
+ * (half-open): success closes the circuit, failure re-opens it.
+ */
+
+const CIRCUIT_FAILURE_THRESHOLD = parseInt(
+  process.env.CIRCUIT_FAILURE_THRESHOLD || "5",
+  10
+);
+
+const CIRCUIT_COOLDOWN_MS = parseInt(
+  process.env.CIRCUIT_COOLDOWN_MS || "30000",
+  10
+);
+
+type CircuitState = {
+  consecutiveFailures: number;
+  openUntil: number | null; // epoch ms; null while closed
+  trialInFlight: boolean;
+};
+
+const circuits = new Map<ProviderName, CircuitState>();
+
+function getState(provider: ProviderName): CircuitState {
+  let state = circuits.get(provider);
+  if (!state) {
+    state = { consecutiveFailures: 0, openUntil: null, trialInFlight: false };
+    circuits.set(provider, state);
+  }
+  return state;
+}
+
+/**
+ * Whether a request may be sent to the provider right now. Claims the single
+ * half-open trial slot when the cool-down has elapsed.
+ */
+export function allowRequest(provider: ProviderName, now = Date.now()) {
+  const state = getState(provider);
+  if (state.openUntil === null) return true;
+  if (now < state.openUntil || state.trialInFlight) return false;
+
+  state.trialInFlight = true;
+  return true;
+}
+
+export function recordSuccess(provider: ProviderName) {
+  circuits.set(provider, {
+    consecutiveFailures: 0,
+    openUntil: null,
+    trialInFlight: false,
+  });
+}
+
+export function recordFailure(provider: ProviderName, now = Date.now()) {
+  const state = getState(provider);
+  state.consecutiveFailures += 1;
+
+  if (
+    state.trialInFlight ||
+    state.consecutiveFailures >= CIRCUIT_FAILURE_THRESHOLD
+  ) {
+    if (state.openUntil === null || state.trialInFlight) {
+      console.error(
+        `[CleanMod] Circuit opened for provider "${provider}" for ${CIRCUIT_COOLDOWN_MS}ms`
+      );
+    }
+    state.openUntil = now + CIRCUIT_COOLDOWN_MS;
+  }
+  state.trialInFlight = false;
+}
@@ -0,0 +1,27 @@
+// src/lib/moderation/concurrency.ts
+
+/**
+ * Map over `items` with at most `limit` calls in flight, keeping the input
+ * order in the results. Rejects on the first failure, like Promise.all.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const workers = Array.from(
+    { length: Math.min(limit, items.length) },
+    async () => {
+      while (next < items.length) {
+        const index = next++;
+        results[index] = await fn(items[index], index);
+      }
+    }
+  );
+  await Promise.all(workers);
+
+  return results;
+}
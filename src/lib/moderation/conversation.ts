@@ -0,0 +1,133 @@
+// src/lib/moderation/conversation.ts
+
+import { DECISION_SEVERITY } from "./policy";
+import type {
+  ModerationDecision,
+  NormalizedCategories,
+  NormalizedModerationResult,
+} from "./types";
+
+/**
+ * Conversation moderation: the final message of a thread is scored a second
+ * time as part of a transcript of the turns before it, so replies that are
+ * only harmful in context ("do it, you know what happens") are caught.
+ */
+
+export type ConversationTurn = {
+  authorId: string;
+  text: string;
+};
+
+// Earlier turns included in the transcript (the final message always is)
+export const CONTEXT_WINDOW_MESSAGES = 10;
+export const CONTEXT_WINDOW_CHARS = 4000;
+
+/**
+ * Transcript of the last turns, oldest first, one "User N: text" line per
+ * turn. Authors get neutral labels so their IDs never reach a provider.
+ * Older turns are dropped until the transcript fits CONTEXT_WINDOW_CHARS.
+ */
+export function buildContextWindow(turns: ConversationTurn[]): {
+  text: string;
+  messages: number;
+} {
+  const labels = new Map<string, string>();
+  for (const turn of turns) {
+    if (!labels.has(turn.authorId)) {
+      labels.set(turn.authorId, `User ${labels.size + 1}`);
+    }
+  }
+  const line = (turn: ConversationTurn) =>
+    `${labels.get(turn.authorId)}: ${turn.text}`;
+
+  const final = turns[turns.length - 1];
+  const lines = [line(final)];
+  let length = lines[0].length;
+
+  const earlier = turns.slice(0, -1).slice(-CONTEXT_WINDOW_MESSAGES);
+  for (let i = earlier.length - 1; i >= 0; i--) {
+    const next = line(earlier[i]);
+    if (length + next.length + 1 > CONTEXT_WINDOW_CHARS) break;
+    lines.unshift(next);
+    length += next.length + 1;
+  }
+
+  return { text: lines.join("\n"), messages: lines.length };
+}
+
+function isMoreSevere(
+  a: NormalizedModerationResult,
+  b: NormalizedModerationResult
+): boolean {
+  return (
+    DECISION_SEVERITY[a.decision] > DECISION_SEVERITY[b.decision] ||
+    (a.decision === b.decision && a.overall_score > b.overall_score)
+  );
+}
+
+/**
+ * The final message's verdict: its own result, replaced by the in-context
+ * one when that is more severe. Scores are the higher of the two.
+ */
+export function withThreadContext(
+  standalone: NormalizedModerationResult,
+  inContext: NormalizedModerationResult,
+  messages: number
+): NormalizedModerationResult {
+  const thread_context = {
+    decision: inContext.decision,
+    overall_score: inContext.overall_score,
+    messages,
+  };
+
+  if (
+    inContext.degraded ||
+    DECISION_SEVERITY[inContext.decision] <=
+      DECISION_SEVERITY[standalone.decision]
+  ) {
+    return { ...standalone, thread_context };
+  }
+
+  const categories: NormalizedCategories = { ...standalone.categories };
+  for (const [category, score] of Object.entries(inContext.categories) as [
+    keyof NormalizedCategories,
+    number | undefined
+  ][]) {
+    if (typeof score === "number") {
+      categories[category] = Math.max(categories[category] ?? 0, score);
+    }
+  }
+
+  return {
+    ...standalone,
+    overall_score: Math.max(standalone.overall_score, inContext.overall_score),
+    categories,
+    decision: inContext.decision,
+    is_toxic: inContext.is_toxic,
+    rule: inContext.rule,
+    escalation: inContext.escalation,
+    thread_context,
+  };
+}
+
+/**
+ * Verdict for the whole thread: the most severe message decision (highest
+ * score on ties), and which message it came from.
+ */
+export function threadVerdict(results: NormalizedModerationResult[]): {
+  decision: ModerationDecision;
+  overall_score: number;
+  decided_by: number | null; // message index; null when everything is allowed
+} {
+  let worst = 0;
+  results.forEach((result, i) => {
+    if (isMoreSevere(result, results[worst])) worst = i;
+  });
+
+  const result = results[worst];
+  return {
+    decision: result.decision,
+    overall_score: result.overall_score,
+    decided_by: result.decision === "allow" ? null : worst,
+  };
+}
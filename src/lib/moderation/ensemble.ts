@@ -0,0 +1,112 @@
+// src/lib/moderation/ensemble.ts
+
+import type {
+  EnsembleMemberScore,
+  EnsembleStrategy,
+  NormalizedCategories,
+  NormalizedModerationResult,
+} from "./types";
+
+/**
+ * How an ensemble model key combines its members' scores, per category
+ * (`EnsembleStrategy`):
+ * - mean: weighted mean over the members that scored the category
+ * - max:  the highest member score (strictest member wins)
+ * - vote: the highest score that at least `minVotes` members agree on, i.e.
+ *         the `minVotes`-th highest member score
+ */
+export type EnsembleConfig = {
+  members: { modelKey: string; weight: number }[];
+  strategy: EnsembleStrategy;
+  minVotes?: number; // vote only; defaults to a simple majority
+  threshold: number; // used for is_toxic/decision, like a provider's default
+};
+
+export type EnsembleMemberResult = {
+  modelKey: string;
+  weight: number;
+  result: NormalizedModerationResult;
+};
+
+function combineScores(
+  scored: { score: number; weight: number }[],
+  config: EnsembleConfig
+): number {
+  switch (config.strategy) {
+    case "mean": {
+      const totalWeight = scored.reduce((sum, s) => sum + s.weight, 0);
+      return totalWeight > 0
+        ? scored.reduce((sum, s) => sum + s.score * s.weight, 0) / totalWeight
+        : 0;
+    }
+    case "max":
+      return Math.max(...scored.map((s) => s.score));
+    case "vote": {
+      const minVotes =
+        config.minVotes ?? Math.floor(config.members.length / 2) + 1;
+      const sorted = scored.map((s) => s.score).sort((a, b) => b - a);
+      // Members that did not score the category (or failed) vote 0
+      return sorted[minVotes - 1] ?? 0;
+    }
+  }
+}
+
+/**
+ * Combine the results of the members that answered into one verdict. A
+ * category only one member knows (e.g. OpenAI's `self_harm`) is combined
+ * over that member alone for `mean`, so it is not diluted by models that
+ * cannot score it.
+ */
+export function combineEnsemble(
+  members: EnsembleMemberResult[],
+  config: EnsembleConfig
+): NormalizedModerationResult {
+  const categoryKeys = new Set<keyof NormalizedCategories>();
+  for (const { result } of members) {
+    for (const key of Object.keys(result.categories)) {
+      categoryKeys.add(key as keyof NormalizedCategories);
+    }
+  }
+
+  const categories: NormalizedCategories = {};
+  for (const key of categoryKeys) {
+    const scored = members
+      .filter(({ result }) => result.categories[key] !== undefined)
+      .map(({ result, weight }) => ({
+        score: result.categories[key] as number,
+        weight,
+      }));
+    categories[key] = combineScores(scored, config);
+  }
+
+  const scores = Object.values(categories) as number[];
+  const overall_score = scores.length ? Math.max(...scores) : 0;
+  const is_toxic = overall_score >= config.threshold;
+
+  const breakdown: EnsembleMemberScore[] = members.map(
+    ({ modelKey, weight, result }) => ({
+      model: modelKey,
+      weight,
+      provider: result.provider,
+      providerModel: result.providerModel,
+      overall_score: result.overall_score,
+      categories: result.categories,
+      fallback: result.fallback ?? false,
+    })
+  );
+
+  return {
+    overall_score,
+    is_toxic,
+    categories,
+    provider: "ensemble",
+    providerModel: members.map(({ result }) => result.providerModel).join("+"),
+    decision: is_toxic ? "flag" : "allow",
+    threshold: config.threshold,
+    // A member answered by its fallback (or missing) weakens the verdict
+    fallback:
+      members.length < config.members.length ||
+      members.some(({ result }) => result.fallback),
+    ensemble: { strategy: config.strategy, members: breakdown },
+  };
+}
@@ -0,0 +1,73 @@
+// src/lib/moderation/labels.ts
+
+import type { NormalizedCategories } from "./types";
+
+export type HfLabelScore = { label: string; score: number };
+
+/**
+ * HF client *usually* returns an array of {label, score}, but older / different
+ * pipelines can nest it one level deeper. Handle both.
+ */
+export function extractLabelScores(raw: unknown): HfLabelScore[] {
+  if (!Array.isArray(raw)) return [];
+
+  // Case 1: [ { label, score }, ... ]
+  if (raw.length && !Array.isArray(raw[0])) {
+    return raw as HfLabelScore[];
+  }
+
+  // Case 2: [ [ { label, score }, ... ] ]
+  if (raw.length && Array.isArray(raw[0])) {
+    return (raw[0] as HfLabelScore[]) || [];
+  }
+
+  return [];
+}
+
+/**
+ * Map raw classifier labels (Unitary / Detoxify style) onto CleanMod's
+ * normalized categories, keeping the max score per category.
+ */
+export function normalizeLabelScores(
+  labelScores: HfLabelScore[]
+): NormalizedCategories {
+  const categories: NormalizedCategories = {};
+
+  for (const item of labelScores) {
+    if (!item || typeof item.label !== "string") continue;
+    const label = item.label.toLowerCase();
+    const score = typeof item.score === "number" ? item.score : 0;
+
+    if (label.includes("tox")) {
+      categories.toxicity = maxCat(categories.toxicity, score);
+    } else if (label.includes("insult")) {
+      categories.insult = maxCat(categories.insult, score);
+    } else if (label.includes("identity") || label.includes("id_hate")) {
+      categories.identity_attack = maxCat(categories.identity_attack, score);
+    } else if (label.includes("threat")) {
+      categories.threat = maxCat(categories.threat, score);
+    } else if (label.includes("obscene") || label.includes("curse")) {
+      categories.obscene = maxCat(categories.obscene, score);
+    } else if (label.includes("sexual")) {
+      categories.sexual = maxCat(categories.sexual, score);
+    }
+  }
+
+  // If the model is very binary (e.g. label like "toxic"/"not toxic"),
+  // make sure we still populate toxicity.
+  if (Object.keys(categories).length === 0 && labelScores.length > 0) {
+    const toxicLike = labelScores.find((i) =>
+      i.label.toLowerCase().includes("tox")
+    );
+    if (toxicLike && typeof toxicLike.score === "number") {
+      categories.toxicity = toxicLike.score;
+    }
+  }
+
+  return categories;
+}
+
+function maxCat(existing: number | undefined, next: number): number {
+  if (existing === undefined) return next;
+  return next > existing ? next : existing;
+}
@@ -0,0 +1,147 @@
+// src/lib/moderation/language.ts
+
+/**
+ * Offline language identification. No model or network call: the writing
+ * system decides most non-Latin languages outright, and Latin-script text is
+ * scored against short stopword lists. Good enough to route and report on,
+ * not to translate.
+ */
+
+export type DetectedLanguage = {
+  code: string; // ISO 639-1, or "und" when undetermined
+  confidence: number; // 0–1
+};
+
+export const UNDETERMINED_LANGUAGE: DetectedLanguage = {
+  code: "und",
+  confidence: 0,
+};
+
+// Below this, routing treats the language as unknown and applies no restriction
+export const MIN_LANGUAGE_CONFIDENCE = 0.5;
+
+// Below this, a language no model covers is served anyway rather than
+// rejected: low-margin calls are often mixed-script text (homoglyphs) or
+// short texts
+export const MIN_LANGUAGE_REJECT_CONFIDENCE = 0.8;
+
+// Texts shorter than this (in letters) are too short to call
+const MIN_LETTERS = 3;
+
+type ScriptRule = { code: string; pattern: RegExp };
+
+// Scripts used by (practically) one language we support
+const SCRIPT_RULES: ScriptRule[] = [
+  { code: "ja", pattern: /[\u3040-\u30FF]/g }, // Hiragana / Katakana
+  { code: "ko", pattern: /[\uAC00-\uD7AF\u1100-\u11FF]/g }, // Hangul
+  { code: "zh", pattern: /[\u4E00-\u9FFF]/g }, // Han (after ja)
+  { code: "el", pattern: /[\u0370-\u03FF]/g }, // Greek
+  { code: "he", pattern: /[\u0590-\u05FF]/g }, // Hebrew
+  { code: "th", pattern: /[\u0E00-\u0E7F]/g }, // Thai
+  { code: "hi", pattern: /[\u0900-\u097F]/g }, // Devanagari
+];
+
+const CYRILLIC_RE = /[\u0400-\u04FF]/g;
+const UKRAINIAN_RE = /[ієїґ]/i;
+const ARABIC_RE = /[\u0600-\u06FF]/g;
+const PERSIAN_RE = /[پچژگ]/;
+
+// Frequent function words per Latin-script language (space-separated)
+const STOPWORDS: Record<string, string> = {
+  en: "the and is you to of it that are this was for with not have what your",
+  es: "el la de que y en los es por con para una no eres pero muy como",
+  fr: "le la les de et est un une je tu vous pas que des pour avec c'est",
+  de: "der die das und ist nicht ich du ein eine zu mit auf sie es bist den",
+  it: "il di che è e la non sei un una per sono con gli ma mi ti",
+  pt: "o a de que e não é um uma para com você os mas isso muito seu",
+  nl: "de het een en is niet je ik van dat op zijn met maar jij wat voor",
+  tr: "bir ve bu da de ne ben sen için çok değil mi gibi ama var yok o",
+  pl: "i w nie jest to się na że z jak ty do co tak ale jesteś mnie",
+  id: "yang dan di ini itu tidak kamu aku dengan untuk ada saya apa ke dari juga bisa",
+};
+
+const STOPWORD_SETS: Record<string, Set<string>> = Object.fromEntries(
+  Object.entries(STOPWORDS).map(([code, words]) => [
+    code,
+    new Set(words.split(" ")),
+  ])
+);
+
+// Letters that (almost) only one of the Latin-script languages uses
+const DIACRITIC_HINTS: [string, RegExp][] = [
+  ["es", /[ñ¿¡]/i],
+  ["de", /[ßäöü]/i],
+  ["fr", /[çœèêëîï]/i],
+  ["pt", /[ãõ]/i],
+  ["tr", /[ğışç]/i],
+  ["pl", /[ąćęłńśźż]/i],
+];
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function countMatches(text: string, pattern: RegExp): number {
+  return text.match(pattern)?.length ?? 0;
+}
+
+/**
+ * Identify the language of `text`. Returns `{ code: "und" }` when the text is
+ * too short or gives no usable signal.
+ */
+export function detectLanguage(text: string): DetectedLanguage {
+  const letters = countMatches(text, /\p{L}/gu);
+  if (letters < MIN_LETTERS) return UNDETERMINED_LANGUAGE;
+
+  // 1) Non-Latin scripts: the share of letters in the script is the confidence
+  for (const rule of SCRIPT_RULES) {
+    const count = countMatches(text, rule.pattern);
+    if (count / letters >= 0.3) {
+      return {
+        code: rule.code,
+        confidence: round(Math.min(1, count / letters)),
+      };
+    }
+  }
+
+  const cyrillic = countMatches(text, CYRILLIC_RE);
+  if (cyrillic / letters >= 0.3) {
+    return {
+      code: UKRAINIAN_RE.test(text) ? "uk" : "ru",
+      confidence: round(Math.min(1, cyrillic / letters) * 0.9),
+    };
+  }
+
+  const arabic = countMatches(text, ARABIC_RE);
+  if (arabic / letters >= 0.3) {
+    return {
+      code: PERSIAN_RE.test(text) ? "fa" : "ar",
+      confidence: round(Math.min(1, arabic / letters) * 0.9),
+    };
+  }
+
+  // 2) Latin script: stopword hits per language, plus diacritic hints
+  const words = text.toLowerCase().match(/[\p{L}']+/gu) ?? [];
+  const scores: Record<string, number> = {};
+  for (const word of words) {
+    for (const [code, set] of Object.entries(STOPWORD_SETS)) {
+      if (set.has(word)) scores[code] = (scores[code] ?? 0) + 1;
+    }
+  }
+  for (const [code, pattern] of DIACRITIC_HINTS) {
+    if (pattern.test(text)) scores[code] = (scores[code] ?? 0) + 1;
+  }
+
+  const ranked = Object.entries(scores).sort((a, b) => b[1] - a[1]);
+  if (ranked.length === 0) return UNDETERMINED_LANGUAGE;
+
+  const [[code, best], second] = ranked;
+  const runnerUp = second ? second[1] : 0;
+
+  // Margin over the runner-up, damped for very short texts
+  const margin = (best - runnerUp) / best;
+  const coverage = Math.min(1, best / Math.max(2, words.length * 0.25));
+  const confidence = round(0.3 + 0.7 * margin * coverage);
+
+  return { code, confidence };
+}
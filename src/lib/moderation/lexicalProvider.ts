@@ -0,0 +1,76 @@
+// src/lib/moderation/lexicalProvider.ts
+
+import type { NormalizedCategories, NormalizedModerationResult } from "./types";
+
+/**
+ * Local lexical scorer: answers when every provider of a model is down and
+ * the org opted into the "lexical" failure mode. No network, never fails,
+ * and deliberately conservative — it only scores unambiguous
+ * English terms, so an outage degrades recall rather than flooding the
+ * review queue with false positives.
+ */
+
+const LEXICAL_MODEL = "cleanmod/lexical-v1";
+const LEXICAL_THRESHOLD = 0.8;
+
+// Score contributed by each hit; two hits in a category reach the threshold
+const HIT_SCORE = 0.5;
+
+const LEXICON: Partial<Record<keyof NormalizedCategories, string[]>> = {
+  insult: [
+    "idiot",
+    "moron",
+    "stupid",
+    "loser",
+    "dumbass",
+    "imbecile",
+    "retard",
+    "pathetic",
+  ],
+  obscene: ["fuck", "fucking", "shit", "bullshit", "asshole", "bitch", "cunt"],
+  threat: [
+    "kill you",
+    "i will kill",
+    "going to kill",
+    "gonna kill",
+    "hurt you",
+    "shoot you",
+    "beat you up",
+  ],
+  identity_attack: ["go back to your country", "subhuman"],
+  sexual: ["porn", "nudes", "blowjob"],
+};
+
+const LEXICON_PATTERNS = Object.entries(LEXICON).map(([category, terms]) => ({
+  category: category as keyof NormalizedCategories,
+  regex: new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${(terms ?? []).join("|")})(?![\\p{L}\\p{N}])`,
+    "giu"
+  ),
+}));
+
+export function moderateWithLexicon(text: string): NormalizedModerationResult {
+  const categories: NormalizedCategories = {};
+
+  for (const { category, regex } of LEXICON_PATTERNS) {
+    const hits = text.match(regex)?.length ?? 0;
+    if (hits > 0) categories[category] = Math.min(1, hits * HIT_SCORE);
+  }
+
+  const scores = Object.values(categories) as number[];
+  // toxicity mirrors the strongest category, like the Unitary labels
+  const overall_score = scores.length ? Math.max(...scores) : 0;
+  if (overall_score > 0) categories.toxicity = overall_score;
+
+  const is_toxic = overall_score >= LEXICAL_THRESHOLD;
+
+  return {
+    overall_score,
+    is_toxic,
+    categories,
+    provider: "lexical",
+    providerModel: LEXICAL_MODEL,
+    decision: is_toxic ? "flag" : "allow",
+    threshold: LEXICAL_THRESHOLD,
+  };
+}
@@ -0,0 +1,239 @@
+// src/lib/moderation/normalize.ts
+
+/**
+ * Obfuscation-resistant text normalization.
+ *
+ * Produces a canonical form of the input ("1d10t" → "idiot", "i d i o t" →
+ * "idiot", Cyrillic "іdіоt" → "idiot") so the model sees what a human reader
+ * sees. The router moderates both the raw and the canonical text and keeps the
+ * worse result, so normalization can only make moderation stricter.
+ */
+
+export type NormalizationTransform =
+  | "zero_width"
+  | "homoglyphs"
+  | "spaced_letters"
+  | "leetspeak"
+  | "repeated_chars";
+
+export type NormalizedText = {
+  canonical: string;
+  transformations: NormalizationTransform[]; // only those that changed the text
+  // Offset into the raw text for each offset into `canonical` (one more entry
+  // than its length), so spans found in the canonical text can be pointed
+  // back at the input. Inside a rewritten stretch the mapping is approximate;
+  // its ends are exact.
+  offsets: number[];
+};
+
+type MappedText = { text: string; offsets: number[] };
+
+// Zero-width spaces/joiners, word joiner, BOM, soft hyphen, Mongolian vowel separator
+const ZERO_WIDTH_RE = /[\u200B-\u200F\u2060-\u2064\uFEFF\u00AD\u180E]/g;
+
+// Cyrillic / Greek letters that render like Latin ones. NFKC handles
+// fullwidth and "mathematical" alphanumerics (𝐢𝐝𝐢𝐨𝐭) before this map runs.
+const HOMOGLYPHS: Record<string, string> = {
+  а: "a",
+  в: "b",
+  е: "e",
+  к: "k",
+  м: "m",
+  н: "h",
+  о: "o",
+  р: "p",
+  с: "c",
+  т: "t",
+  у: "y",
+  х: "x",
+  і: "i",
+  ј: "j",
+  ѕ: "s",
+  ԁ: "d",
+  ɡ: "g",
+  ӏ: "l",
+  А: "A",
+  В: "B",
+  Е: "E",
+  К: "K",
+  М: "M",
+  Н: "H",
+  О: "O",
+  Р: "P",
+  С: "C",
+  Т: "T",
+  Х: "X",
+  І: "I",
+  Ј: "J",
+  Ѕ: "S",
+  α: "a",
+  β: "b",
+  ε: "e",
+  ι: "i",
+  κ: "k",
+  ν: "v",
+  ο: "o",
+  ρ: "p",
+  τ: "t",
+  υ: "u",
+  χ: "x",
+  Α: "A",
+  Β: "B",
+  Ε: "E",
+  Ι: "I",
+  Κ: "K",
+  Μ: "M",
+  Ν: "N",
+  Ο: "O",
+  Ρ: "P",
+  Τ: "T",
+  Χ: "X",
+  Υ: "Y",
+  Ζ: "Z",
+};
+const HOMOGLYPH_RE = new RegExp(`[${Object.keys(HOMOGLYPHS).join("")}]`, "g");
+
+const LEET: Record<string, string> = {
+  "0": "o",
+  "1": "i",
+  "3": "e",
+  "4": "a",
+  "5": "s",
+  "7": "t",
+  "8": "b",
+  "9": "g",
+  "@": "a",
+  $: "s",
+  "!": "i",
+  "|": "l",
+  "+": "t",
+};
+const LEET_CHAR_RE = /[0134579@$!|+8]/;
+const LEET_GLOBAL_RE = /[0134579@$!|+8]/g;
+
+// "i d i o t", "i.d.i.o.t", "i-d-1-o-t": 3+ single characters with separators
+const SPACED_RE =
+  /(?<![\p{L}\p{N}])[\p{L}0134579@$](?:[ .\-_*][\p{L}0134579@$]){2,}(?![\p{L}\p{N}])/gu;
+
+// 3+ repeats of the same letter collapse to two ("stuuuupid" → "stuupid")
+const REPEATED_RE = /(\p{L})\1{2,}/gu;
+
+function leetToken(token: string): string {
+  // Keep leading/trailing punctuation ("idiot!") out of the mapping, but let
+  // leading @/$ through ("@ss", "$hit")
+  const m = token.match(/^([^\p{L}\p{N}@$]*)(.*?)([^\p{L}\p{N}]*)$/u);
+  if (!m) return token;
+  const [, lead, core, trail] = m;
+
+  if (!/\p{L}/u.test(core) || !LEET_CHAR_RE.test(core)) return token;
+  return lead + core.replace(LEET_GLOBAL_RE, (c) => LEET[c]) + trail;
+}
+
+/**
+ * `String.replace` that also carries the raw-text offsets along. Characters
+ * of a replacement map proportionally onto the stretch they replace.
+ */
+function replaceMapped(
+  current: MappedText,
+  pattern: RegExp,
+  replacer: (match: RegExpMatchArray) => string
+): MappedText {
+  let text = "";
+  const offsets: number[] = [];
+  let last = 0;
+
+  for (const match of current.text.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    const replacement = replacer(match);
+    text += current.text.slice(last, index) + replacement;
+    offsets.push(...current.offsets.slice(last, index));
+    for (let i = 0; i < replacement.length; i++) {
+      offsets.push(
+        current.offsets[
+          index + Math.floor((i * match[0].length) / replacement.length)
+        ]
+      );
+    }
+    last = index + match[0].length;
+  }
+
+  text += current.text.slice(last);
+  offsets.push(...current.offsets.slice(last));
+  return { text, offsets };
+}
+
+/**
+ * NFKC, applied per base character and its combining marks so offsets can
+ * be kept. Falls back to the whole-string form, mapped proportionally, in
+ * the rare case that differs (e.g. conjoining Hangul jamo).
+ */
+function normalizeNfkc(current: MappedText): MappedText {
+  const mapped = replaceMapped(current, /\P{M}\p{M}*|\p{M}+/gu, ([cluster]) =>
+    cluster.normalize("NFKC")
+  );
+  const whole = current.text.normalize("NFKC");
+  if (mapped.text === whole) return mapped;
+
+  return {
+    text: whole,
+    offsets: Array.from(
+      { length: whole.length + 1 },
+      (_, i) =>
+        current.offsets[
+          Math.floor((i * current.text.length) / Math.max(1, whole.length))
+        ]
+    ),
+  };
+}
+
+/**
+ * Produce the canonical form of `text` and list the transformations that
+ * changed it.
+ */
+export function normalizeText(text: string): NormalizedText {
+  const transformations: NormalizationTransform[] = [];
+  let current: MappedText = {
+    text,
+    offsets: Array.from({ length: text.length + 1 }, (_, i) => i),
+  };
+
+  const step = (name: NormalizationTransform, next: MappedText) => {
+    if (next.text !== current.text) {
+      transformations.push(name);
+      current = next;
+    }
+  };
+
+  step(
+    "zero_width",
+    replaceMapped(current, ZERO_WIDTH_RE, () => "")
+  );
+
+  step(
+    "homoglyphs",
+    replaceMapped(normalizeNfkc(current), HOMOGLYPH_RE, ([c]) => HOMOGLYPHS[c])
+  );
+
+  step(
+    "spaced_letters",
+    replaceMapped(current, SPACED_RE, ([match]) =>
+      /\p{L}.*\p{L}/u.test(match) ? match.replace(/[ .\-_*]/g, "") : match
+    )
+  );
+
+  step(
+    "leetspeak",
+    replaceMapped(current, /\S+/g, ([token]) => leetToken(token))
+  );
+
+  step(
+    "repeated_chars",
+    replaceMapped(current, REPEATED_RE, ([, letter]) => letter + letter)
+  );
+
+  return {
+    canonical: current.text,
+    transformations,
+    offsets: current.offsets,
+  };
+}
@@ -0,0 +1,184 @@
+// src/lib/moderation/openaiProvider.ts
+
+import type { NormalizedCategories, NormalizedModerationResult } from "./types";
+import { AuthenticationError, type ModerationProvider } from "./provider";
+import { parseRetryAfter, ProviderRequestError } from "./resilience";
+
+export type OpenAIModelKey = "english-pro";
+
+// Base URL is configurable so tests can point at a local mock server
+const OPENAI_BASE_URL = (
+  process.env.OPENAI_BASE_URL || "https://api.openai.com/v1"
+).replace(/\/+$/, "");
+
+const OPENAI_MODERATION_MODEL =
+  process.env.OPENAI_MODERATION_MODEL || "omni-moderation-latest";
+
+const MODEL_CONFIG: Record<
+  OpenAIModelKey,
+  { providerModel: string; defaultThreshold: number }
+> = {
+  "english-pro": {
+    providerModel: OPENAI_MODERATION_MODEL,
+    defaultThreshold: 0.8,
+  },
+};
+
+/**
+ * omni-moderation category → CleanMod category. Sub-categories also feed the
+ * shared Unitary-style categories (insult, threat, identity_attack) so the
+ * same thresholds work regardless of provider.
+ */
+const CATEGORY_MAP: Record<string, (keyof NormalizedCategories)[]> = {
+  harassment: ["harassment", "insult"],
+  "harassment/threatening": ["harassment_threatening", "threat"],
+  hate: ["hate", "identity_attack"],
+  "hate/threatening": ["hate_threatening", "identity_attack", "threat"],
+  "self-harm": ["self_harm"],
+  "self-harm/intent": ["self_harm_intent", "self_harm"],
+  "self-harm/instructions": ["self_harm_instructions", "self_harm"],
+  sexual: ["sexual"],
+  "sexual/minors": ["sexual_minors", "sexual"],
+  violence: ["violence"],
+  "violence/graphic": ["violence_graphic", "violence"],
+};
+
+type OpenAIModerationResponse = {
+  id?: string;
+  model?: string;
+  results?: Array<{
+    flagged?: boolean;
+    category_scores?: Record<string, number>;
+  }>;
+};
+
+/**
+ * Calls the OpenAI moderation endpoint and normalizes the omni-moderation
+ * category scores to CleanMod's `NormalizedModerationResult`.
+ */
+export async function moderateWithOpenAI(
+  text: string,
+  modelKey: OpenAIModelKey = "english-pro",
+  signal?: AbortSignal
+): Promise<NormalizedModerationResult> {
+  const startTimer = performance.now();
+  const config = MODEL_CONFIG[modelKey];
+
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new AuthenticationError(
+      "OpenAI API key is not configured. Please set the OPENAI_API_KEY environment variable."
+    );
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${OPENAI_BASE_URL}/moderations`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: config.providerModel,
+        input: text,
+      }),
+      signal,
+    });
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    console.error("[CleanMod] OpenAI moderation request failed:", {
+      message: errorMessage,
+    });
+    throw new ProviderRequestError(
+      `Moderation service error: ${errorMessage}`,
+      {
+        cause: err,
+      }
+    );
+  }
+
+  if (response.status === 401 || response.status === 403) {
+    throw new AuthenticationError(
+      "OpenAI API authentication failed. Please check your OPENAI_API_KEY environment variable."
+    );
+  }
+
+  if (!response.ok) {
+    const errorBody = await response.text().catch(() => "");
+    console.error("[CleanMod] OpenAI moderation error:", {
+      status: response.status,
+      body: errorBody.slice(0, 500),
+    });
+    throw new ProviderRequestError(
+      `Moderation service error: OpenAI responded with ${response.status}`,
+      {
+        status: response.status,
+        retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+      }
+    );
+  }
+
+  const raw = (await response.json()) as OpenAIModerationResponse;
+  const scores = raw?.results?.[0]?.category_scores;
+
+  if (!scores || typeof scores !== "object") {
+    console.error(
+      "[CleanMod] OpenAI moderation returned no category scores. Raw response:",
+      JSON.stringify(raw, null, 2)
+    );
+    throw new Error(
+      "Moderation service returned invalid response format. Please contact support."
+    );
+  }
+
+  const categories: NormalizedCategories = {};
+
+  for (const [openaiCategory, score] of Object.entries(scores)) {
+    const targets = CATEGORY_MAP[openaiCategory];
+    if (!targets || typeof score !== "number") continue;
+
+    for (const target of targets) {
+      const existing = categories[target];
+      categories[target] =
+        existing === undefined || score > existing ? score : existing;
+    }
+  }
+
+  const categoryValues = Object.values(categories) as number[];
+  const overall_score = categoryValues.length ? Math.max(...categoryValues) : 0;
+
+  const threshold = config.defaultThreshold;
+  const is_toxic = overall_score >= threshold;
+  const decision = is_toxic ? "flag" : "allow";
+
+  const result: NormalizedModerationResult = {
+    overall_score,
+    is_toxic,
+    categories,
+    provider: "openai",
+    providerModel: raw.model || config.providerModel,
+    decision,
+    threshold,
+  };
+
+  const endTimer = performance.now();
+  console.log(`[CleanMod] OpenAI moderation took ${endTimer - startTimer}ms`);
+
+  return result;
+}
+
+function isOpenAIModelKey(modelKey: string): modelKey is OpenAIModelKey {
+  return Object.prototype.hasOwnProperty.call(MODEL_CONFIG, modelKey);
+}
+
+export const openaiProvider: ModerationProvider = {
+  name: "openai",
+  supports: isOpenAIModelKey,
+  moderate(text, modelKey, signal) {
+    if (!isOpenAIModelKey(modelKey)) {
+      throw new Error(`OpenAI provider does not support model "${modelKey}".`);
+    }
+    return moderateWithOpenAI(text, modelKey, signal);
+  },
+};
@@ -0,0 +1,169 @@
+// src/lib/moderation/pii.ts
+
+import type { NormalizedCategories, PiiSpan, PiiType } from "./types";
+
+/**
+ * Deterministic, local PII detector. Runs next to the model provider and
+ * contributes the `pii*` categories, which policies can flag or block on.
+ * Spans carry offsets only (never the matched value) because results are
+ * persisted in ModerationLog.normalized.
+ */
+
+// Confidence per type: checksum-validated matches are certain, the rest heuristic
+const PII_SCORES: Record<PiiType, number> = {
+  email: 1,
+  credit_card: 1,
+  iban: 1,
+  phone: 0.8,
+  address: 0.7,
+};
+
+const PII_CATEGORY: Record<PiiType, keyof NormalizedCategories> = {
+  email: "pii_email",
+  phone: "pii_phone",
+  credit_card: "pii_credit_card",
+  iban: "pii_iban",
+  address: "pii_address",
+};
+
+/**
+ * Category keys owned by the PII detector. They are left out of
+ * overall_score: PII is not toxic, so only explicit policy rules act on it.
+ */
+export const PII_CATEGORIES: (keyof NormalizedCategories)[] = [
+  "pii",
+  ...Object.values(PII_CATEGORY),
+];
+
+const REDACTION_LABELS: Record<PiiType, string> = {
+  email: "[EMAIL]",
+  phone: "[PHONE]",
+  credit_card: "[CREDIT_CARD]",
+  iban: "[IBAN]",
+  address: "[ADDRESS]",
+};
+
+const CREDIT_CARD_RE = /(?<!\d)(?:\d[ -]?){12,18}\d(?!\d)/g;
+const IBAN_RE = /(?<![A-Z0-9])[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}(?![A-Z0-9])/gi;
+// Local part anchored at a non-local-part character and length-capped (RFC
+// 5321 limits), so a long run without "@" is not rescanned from every offset
+const EMAIL_RE =
+  /(?<![A-Z0-9._%+-])[A-Z0-9._%+-]{1,64}@[A-Z0-9-]{1,63}(?:\.[A-Z0-9-]{1,63}){0,8}\.[A-Z]{2,24}(?![A-Z0-9-])/gi;
+const PHONE_RE =
+  /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){1,4}(?!\w)/g;
+const ADDRESS_RE =
+  /(?<![\w])\d{1,5}\s+(?:[A-Za-z][A-Za-z.'-]*\s+){1,3}(?:street|st|avenue|ave|road|rd|boulevard|blvd|lane|ln|drive|dr|court|ct|way|place|pl|terrace|square|sq|parkway|pkwy|highway|hwy)\b\.?/gi;
+
+function digitsOf(value: string): string {
+  return value.replace(/\D/g, "");
+}
+
+function isLuhnValid(digits: string): boolean {
+  let sum = 0;
+  let double = false;
+  for (let i = digits.length - 1; i >= 0; i--) {
+    let d = digits.charCodeAt(i) - 48;
+    if (double) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+    double = !double;
+  }
+  return sum % 10 === 0;
+}
+
+function isIbanValid(value: string): boolean {
+  const iban = value.replace(/\s/g, "").toUpperCase();
+  if (iban.length < 15 || iban.length > 34) return false;
+
+  // Move country code + check digits to the end, letters → numbers, mod 97
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const ch of rearranged) {
+    const value = /[A-Z]/.test(ch) ? String(ch.charCodeAt(0) - 55) : ch;
+    for (const digit of value) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+type Detector = {
+  type: PiiType;
+  regex: RegExp;
+  validate?: (match: string) => boolean;
+};
+
+// Order matters: earlier detectors claim their spans first
+const DETECTORS: Detector[] = [
+  {
+    type: "credit_card",
+    regex: CREDIT_CARD_RE,
+    validate: (m) => {
+      const digits = digitsOf(m);
+      return digits.length >= 13 && digits.length <= 19 && isLuhnValid(digits);
+    },
+  },
+  { type: "iban", regex: IBAN_RE, validate: isIbanValid },
+  { type: "email", regex: EMAIL_RE },
+  {
+    type: "phone",
+    regex: PHONE_RE,
+    validate: (m) => {
+      const digits = digitsOf(m);
+      return digits.length >= 7 && digits.length <= 15;
+    },
+  },
+  { type: "address", regex: ADDRESS_RE },
+];
+
+/**
+ * Find PII spans in the text, sorted by offset, without overlaps.
+ */
+export function detectPii(text: string): PiiSpan[] {
+  const spans: PiiSpan[] = [];
+  const overlaps = (start: number, end: number) =>
+    spans.some((s) => start < s.end && end > s.start);
+
+  for (const detector of DETECTORS) {
+    for (const m of text.matchAll(detector.regex)) {
+      if (m.index === undefined) continue;
+      const start = m.index;
+      const end = start + m[0].length;
+      if (overlaps(start, end)) continue;
+      if (detector.validate && !detector.validate(m[0])) continue;
+      spans.push({ type: detector.type, start, end });
+    }
+  }
+
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Category scores for the detected spans: one `pii_<type>` per type found,
+ * plus the `pii` family score (max).
+ */
+export function piiCategories(spans: PiiSpan[]): NormalizedCategories {
+  const categories: NormalizedCategories = {};
+  for (const span of spans) {
+    const category = PII_CATEGORY[span.type];
+    const score = PII_SCORES[span.type];
+    categories[category] = Math.max(categories[category] ?? 0, score);
+    categories.pii = Math.max(categories.pii ?? 0, score);
+  }
+  return categories;
+}
+
+/**
+ * Replace each detected span with a type label, e.g. "[EMAIL]".
+ */
+export function redactPii(text: string, spans: PiiSpan[]): string {
+  let redacted = "";
+  let cursor = 0;
+  for (const span of spans) {
+    redacted += text.slice(cursor, span.start) + REDACTION_LABELS[span.type];
+    cursor = span.end;
+  }
+  return redacted + text.slice(cursor);
+}
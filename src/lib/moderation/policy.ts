@@ -0,0 +1,269 @@
+// src/lib/moderation/policy.ts
+
+import type {
+  ModerationDecision,
+  NormalizedCategories,
+  NormalizedModerationResult,
+  PolicyRuleMatch,
+  RiskTier,
+} from "./types";
+
+export type CategoryKey = keyof NormalizedCategories;
+
+/**
+ * Score thresholds for one category (or the overall score).
+ * A score ≥ `block` blocks; otherwise a score ≥ `flag` flags.
+ */
+export type CategoryThresholds = {
+  flag?: number;
+  block?: number;
+};
+
+export type PolicyThresholds = {
+  // Applied to overall_score. `flag` falls back to the model's default threshold.
+  overall: CategoryThresholds;
+  categories: Partial<Record<CategoryKey, CategoryThresholds>>;
+};
+
+// How much to lower every threshold for end users in a risk tier
+export type EscalationMargins = Partial<
+  Record<Exclude<RiskTier, "low">, number>
+>;
+
+export type PolicyConfig = PolicyThresholds & {
+  // Per-`context.source` overrides (e.g. stricter for usernames). An entry
+  // replaces the base thresholds for the overall score or that category.
+  sources?: Record<string, PolicyThresholds>;
+  // Repeat offenders: borderline texts move up one decision
+  escalation?: EscalationMargins;
+};
+
+export const ESCALATION_TIERS: Exclude<RiskTier, "low">[] = [
+  "elevated",
+  "high",
+];
+
+/**
+ * `context.source` values (and policy source keys): short slugs such as
+ * `comment` or `username`.
+ */
+export const SOURCE_PATTERN = /^[a-z0-9][a-z0-9_.-]{0,63}$/;
+
+// Source overrides per policy
+export const MAX_POLICY_SOURCES = 20;
+
+/**
+ * Used when an org has no policy of its own: keeps the model's default flag
+ * threshold and blocks only clear-cut severe content.
+ */
+export const DEFAULT_POLICY: PolicyConfig = {
+  overall: {},
+  categories: {
+    threat: { block: 0.9 },
+    hate_threatening: { block: 0.9 },
+    self_harm_instructions: { block: 0.9 },
+    sexual_minors: { block: 0.5 },
+  },
+};
+
+/**
+ * Categories a policy can set thresholds for, in display order.
+ */
+export const POLICY_CATEGORIES: CategoryKey[] = [
+  "toxicity",
+  "insult",
+  "identity_attack",
+  "threat",
+  "obscene",
+  "sexual",
+  "harassment",
+  "harassment_threatening",
+  "hate",
+  "hate_threatening",
+  "self_harm",
+  "self_harm_intent",
+  "self_harm_instructions",
+  "sexual_minors",
+  "violence",
+  "violence_graphic",
+  "spam",
+  "pii",
+  "pii_email",
+  "pii_phone",
+  "pii_credit_card",
+  "pii_iban",
+  "pii_address",
+];
+
+function parseThresholds(value: unknown): CategoryThresholds | null {
+  if (!value || typeof value !== "object") return null;
+
+  const thresholds: CategoryThresholds = {};
+  for (const action of ["flag", "block"] as const) {
+    const score = (value as Record<string, unknown>)[action];
+    if (typeof score === "number" && score >= 0 && score <= 1) {
+      thresholds[action] = score;
+    }
+  }
+
+  return Object.keys(thresholds).length > 0 ? thresholds : null;
+}
+
+function parsePolicyThresholds(value: unknown): PolicyThresholds {
+  const raw = (value && typeof value === "object" ? value : {}) as {
+    overall?: unknown;
+    categories?: unknown;
+  };
+
+  const categories: PolicyThresholds["categories"] = {};
+  if (raw.categories && typeof raw.categories === "object") {
+    for (const category of POLICY_CATEGORIES) {
+      const thresholds = parseThresholds(
+        (raw.categories as Record<string, unknown>)[category]
+      );
+      if (thresholds) categories[category] = thresholds;
+    }
+  }
+
+  return {
+    overall: parseThresholds(raw.overall) ?? {},
+    categories,
+  };
+}
+
+/**
+ * Read a stored policy (e.g. `ModerationPolicy.rules` JSON) into a
+ * `PolicyConfig`, dropping unknown categories, out-of-range thresholds and
+ * malformed source keys.
+ */
+export function parsePolicyConfig(value: unknown): PolicyConfig {
+  const config: PolicyConfig = parsePolicyThresholds(value);
+
+  const rawSources = (value as { sources?: unknown } | null)?.sources;
+  if (rawSources && typeof rawSources === "object") {
+    const sources = Object.entries(rawSources)
+      .filter(([source]) => SOURCE_PATTERN.test(source))
+      .slice(0, MAX_POLICY_SOURCES)
+      .map(([source, raw]) => [source, parsePolicyThresholds(raw)] as const);
+    if (sources.length > 0) config.sources = Object.fromEntries(sources);
+  }
+
+  const rawEscalation = (value as { escalation?: unknown } | null)?.escalation;
+  if (rawEscalation && typeof rawEscalation === "object") {
+    const escalation: EscalationMargins = {};
+    for (const tier of ESCALATION_TIERS) {
+      const margin = (rawEscalation as Record<string, unknown>)[tier];
+      if (typeof margin === "number" && margin > 0 && margin <= 1) {
+        escalation[tier] = margin;
+      }
+    }
+    if (Object.keys(escalation).length > 0) config.escalation = escalation;
+  }
+
+  return config;
+}
+
+/**
+ * The thresholds for one request: the base policy with the source's
+ * overrides, if it has any.
+ */
+export function policyForSource(
+  policy: PolicyConfig,
+  source: string | null
+): PolicyConfig {
+  const override = source ? policy.sources?.[source] : undefined;
+  if (!override) return policy;
+
+  return {
+    overall: { ...policy.overall, ...override.overall },
+    categories: { ...policy.categories, ...override.categories },
+    ...(policy.escalation && { escalation: policy.escalation }),
+  };
+}
+
+export const DECISION_SEVERITY: Record<ModerationDecision, number> = {
+  allow: 0,
+  flag: 1,
+  block: 2,
+};
+
+/**
+ * Evaluate one thresholds entry against a score. Returns the strongest action
+ * it triggers, or null.
+ */
+function matchThresholds(
+  category: PolicyRuleMatch["category"],
+  score: number,
+  thresholds: CategoryThresholds
+): PolicyRuleMatch | null {
+  if (thresholds.block !== undefined && score >= thresholds.block) {
+    return { category, action: "block", threshold: thresholds.block, score };
+  }
+  if (thresholds.flag !== undefined && score >= thresholds.flag) {
+    return { category, action: "flag", threshold: thresholds.flag, score };
+  }
+  return null;
+}
+
+/**
+ * Pick the rule that decides the outcome: most severe action first, then the
+ * highest score.
+ */
+function strongestMatch(matches: PolicyRuleMatch[]): PolicyRuleMatch | null {
+  let best: PolicyRuleMatch | null = null;
+  for (const match of matches) {
+    if (
+      !best ||
+      DECISION_SEVERITY[match.action] > DECISION_SEVERITY[best.action] ||
+      (match.action === best.action && match.score > best.score)
+    ) {
+      best = match;
+    }
+  }
+  return best;
+}
+
+/**
+ * Compute the decision for a provider result from the full category scores.
+ * Overrides the provider's provisional decision and records which rule fired.
+ */
+export function applyPolicy(
+  result: NormalizedModerationResult,
+  policy: PolicyConfig = DEFAULT_POLICY
+): NormalizedModerationResult {
+  const overallThresholds: CategoryThresholds = {
+    ...policy.overall,
+    flag: policy.overall.flag ?? result.threshold,
+  };
+
+  const matches: PolicyRuleMatch[] = [];
+
+  const overallMatch = matchThresholds(
+    "overall",
+    result.overall_score,
+    overallThresholds
+  );
+  if (overallMatch) matches.push(overallMatch);
+
+  for (const [category, thresholds] of Object.entries(policy.categories) as [
+    CategoryKey,
+    CategoryThresholds | undefined
+  ][]) {
+    const score = result.categories[category];
+    if (!thresholds || typeof score !== "number") continue;
+
+    const match = matchThresholds(category, score, thresholds);
+    if (match) matches.push(match);
+  }
+
+  const rule = strongestMatch(matches);
+  const decision: ModerationDecision = rule ? rule.action : "allow";
+
+  return {
+    ...result,
+    decision,
+    is_toxic: decision !== "allow",
+    threshold: overallThresholds.flag as number,
+    rule,
+  };
+}
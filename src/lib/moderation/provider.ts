@@ -0,0 +1,46 @@
+// src/lib/moderation/provider.ts
+
+import type { NormalizedModerationResult } from "./types";
+
+export type ProviderName = NormalizedModerationResult["provider"];
+
+/**
+ * A moderation backend (Hugging Face, OpenAI, ...) that can score text for
+ * one or more CleanMod model keys. Implementations pass `signal` on to their
+ * HTTP calls so timed-out and hedged attempts are cancelled.
+ */
+export interface ModerationProvider {
+  name: ProviderName;
+  supports(modelKey: string): boolean;
+  moderate(
+    text: string,
+    modelKey: string,
+    signal?: AbortSignal
+  ): Promise<NormalizedModerationResult>;
+}
+
+/**
+ * Custom error class for authentication failures with the moderation provider.
+ * This allows for type-safe error checking using instanceof.
+ */
+export class AuthenticationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthenticationError";
+  }
+}
+
+// Registered providers, keyed by provider name
+const providers = new Map<ProviderName, ModerationProvider>();
+
+/**
+ * Register a provider so the router can dispatch to it.
+ * Registering the same name twice replaces the previous provider.
+ */
+export function registerProvider(provider: ModerationProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function getProvider(name: ProviderName): ModerationProvider | null {
+  return providers.get(name) ?? null;
+}
@@ -0,0 +1,115 @@
+// src/lib/moderation/reputation.ts
+
+import {
+  applyPolicy,
+  DECISION_SEVERITY,
+  type CategoryThresholds,
+  type PolicyConfig,
+} from "./policy";
+import type {
+  ModerationDecision,
+  NormalizedModerationResult,
+  RiskTier,
+} from "./types";
+
+/**
+ * End-user reputation: each flag or block adds offense points to the user's
+ * score, which halves every half-life. The score decides the risk tier, and
+ * the policy's escalation margins decide how much stricter the thresholds
+ * are for users in a tier.
+ */
+
+// Offense points per decision
+export const OFFENSE_POINTS: Record<ModerationDecision, number> = {
+  allow: 0,
+  flag: 1,
+  block: 3,
+};
+
+// Minimum decayed score for each tier
+export const RISK_TIER_SCORES: Record<Exclude<RiskTier, "low">, number> = {
+  elevated: 3,
+  high: 8,
+};
+
+export const RISK_TIERS: RiskTier[] = ["low", "elevated", "high"];
+
+/**
+ * `score` (as of `since`) decayed to `now`.
+ */
+export function decayScore(
+  score: number,
+  since: Date,
+  now: Date,
+  halfLifeMs: number
+): number {
+  const elapsed = Math.max(0, now.getTime() - since.getTime());
+  return score * Math.pow(0.5, elapsed / halfLifeMs);
+}
+
+export function riskTierFor(score: number): RiskTier {
+  if (score >= RISK_TIER_SCORES.high) return "high";
+  if (score >= RISK_TIER_SCORES.elevated) return "elevated";
+  return "low";
+}
+
+function lowerThresholds(
+  thresholds: CategoryThresholds,
+  margin: number
+): CategoryThresholds {
+  const lowered: CategoryThresholds = {};
+  for (const action of ["flag", "block"] as const) {
+    const value = thresholds[action];
+    // Rounded so rules report 0.7, not 0.7000000000000001
+    if (value !== undefined) {
+      lowered[action] = Math.max(0, Math.round((value - margin) * 1e6) / 1e6);
+    }
+  }
+  return lowered;
+}
+
+/**
+ * Re-evaluate a result with every threshold lowered by the policy's margin
+ * for `tier`. A text that now crosses a threshold moves up one step (allow →
+ * flag, flag → block); degraded results and blocks are left alone.
+ */
+export function escalateForRiskTier(
+  result: NormalizedModerationResult,
+  policy: PolicyConfig,
+  tier: RiskTier
+): NormalizedModerationResult {
+  const margin = tier === "low" ? undefined : policy.escalation?.[tier];
+  if (!margin || result.degraded || result.decision === "block") {
+    return result;
+  }
+
+  const stricter = applyPolicy(result, {
+    overall: lowerThresholds(
+      // The model's threshold applies when the policy sets no overall flag
+      { ...policy.overall, flag: policy.overall.flag ?? result.threshold },
+      margin
+    ),
+    categories: Object.fromEntries(
+      Object.entries(policy.categories).map(([category, thresholds]) => [
+        category,
+        thresholds && lowerThresholds(thresholds, margin),
+      ])
+    ),
+  });
+
+  if (
+    DECISION_SEVERITY[stricter.decision] <= DECISION_SEVERITY[result.decision]
+  ) {
+    return result;
+  }
+
+  const decision: ModerationDecision =
+    result.decision === "allow" ? "flag" : "block";
+  return {
+    ...result,
+    decision,
+    is_toxic: true,
+    rule: stricter.rule && { ...stricter.rule, action: decision },
+    escalation: { risk_tier: tier, from: result.decision, margin },
+  };
+}
@@ -0,0 +1,271 @@
+// src/lib/moderation/resilience.ts
+
+import { AuthenticationError } from "./provider";
+
+/**
+ * Timeouts, retries and hedging around provider calls.
+ *
+ * Every attempt gets its own timeout and abort signal; the whole call is
+ * bounded by the model's budget. 429s, 5xx responses, network errors and
+ * timeouts are retried with full-jitter exponential backoff. Hugging Face
+ * cold starts ("model is loading") wait for the reported `estimated_time`
+ * instead, as long as the budget allows.
+ */
+
+export type ResiliencePolicy = {
+  attemptTimeoutMs: number; // per attempt
+  budgetMs: number; // whole call, including backoff and cold-start waits
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Send a second, parallel attempt when the first has not answered after
+  // this long; the first success wins. null disables hedging.
+  hedgeAfterMs: number | null;
+};
+
+const PROVIDER_MAX_RETRIES = parseInt(
+  process.env.PROVIDER_MAX_RETRIES || "2",
+  10
+);
+
+const PROVIDER_RETRY_BASE_MS = parseInt(
+  process.env.PROVIDER_RETRY_BASE_MS || "200",
+  10
+);
+
+const PROVIDER_RETRY_MAX_MS = parseInt(
+  process.env.PROVIDER_RETRY_MAX_MS || "2000",
+  10
+);
+
+// 0 (the default) disables hedged requests
+const PROVIDER_HEDGE_AFTER_MS = parseInt(
+  process.env.PROVIDER_HEDGE_AFTER_MS || "0",
+  10
+);
+
+/**
+ * Build a policy from the model's timeout budget and the env-wide retry and
+ * hedging settings.
+ */
+export function resiliencePolicy(budget: {
+  attemptTimeoutMs: number;
+  budgetMs: number;
+}): ResiliencePolicy {
+  return {
+    ...budget,
+    maxRetries: PROVIDER_MAX_RETRIES,
+    baseDelayMs: PROVIDER_RETRY_BASE_MS,
+    maxDelayMs: PROVIDER_RETRY_MAX_MS,
+    hedgeAfterMs: PROVIDER_HEDGE_AFTER_MS > 0 ? PROVIDER_HEDGE_AFTER_MS : null,
+  };
+}
+
+/**
+ * A failed provider request. `status` is undefined for network errors.
+ */
+export class ProviderRequestError extends Error {
+  status?: number;
+  retryAfterMs?: number; // from a Retry-After header
+  estimatedTimeMs?: number; // Hugging Face cold start
+
+  constructor(
+    message: string,
+    details: {
+      status?: number;
+      retryAfterMs?: number;
+      estimatedTimeMs?: number;
+      cause?: unknown;
+    } = {}
+  ) {
+    super(message, { cause: details.cause });
+    this.name = "ProviderRequestError";
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+    this.estimatedTimeMs = details.estimatedTimeMs;
+  }
+}
+
+export class ProviderTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Provider request timed out after ${timeoutMs}ms.`);
+    this.name = "ProviderTimeoutError";
+  }
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now = Date.now()
+): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function isRetryable(err: unknown): boolean {
+  if (err instanceof AuthenticationError) return false;
+  if (err instanceof ProviderTimeoutError) return true;
+  if (err instanceof ProviderRequestError) {
+    return (
+      err.status === undefined ||
+      err.status === 408 ||
+      err.status === 429 ||
+      err.status >= 500
+    );
+  }
+  return false;
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+type Attempt<T> = { promise: Promise<T>; cancel: () => void };
+
+/**
+ * Start one attempt with its own abort signal. The timeout rejects even when
+ * `fn` ignores the signal, so a stuck request cannot hold the call.
+ */
+function startAttempt<T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number
+): Attempt<T> {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const promise = new Promise<T>((resolve, reject) => {
+    timer = setTimeout(() => {
+      const err = new ProviderTimeoutError(timeoutMs);
+      controller.abort(err);
+      reject(err);
+    }, timeoutMs);
+
+    fn(controller.signal).then(resolve, reject);
+  }).finally(() => clearTimeout(timer));
+
+  return {
+    promise,
+    cancel: () => {
+      clearTimeout(timer);
+      controller.abort();
+    },
+  };
+}
+
+/**
+ * One attempt, plus a hedge when the first is slow. Resolves with the first
+ * success and cancels the other request; rejects once both have failed.
+ */
+function attemptWithHedge<T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  hedgeAfterMs: number | null
+): Promise<T> {
+  if (hedgeAfterMs === null || hedgeAfterMs >= timeoutMs) {
+    return startAttempt(fn, timeoutMs).promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const attempts: Attempt<T>[] = [];
+    let failures = 0;
+    let firstError: unknown;
+    let settled = false;
+
+    const launch = (ms: number) => {
+      const attempt = startAttempt(fn, ms);
+      attempts.push(attempt);
+      attempt.promise.then(
+        (value) => {
+          if (settled) return;
+          settled = true;
+          clearTimeout(hedgeTimer);
+          for (const other of attempts) {
+            if (other !== attempt) other.cancel();
+          }
+          resolve(value);
+        },
+        (err) => {
+          if (settled) return;
+          failures += 1;
+          firstError ??= err;
+          // Don't hedge a request that already failed: the retry loop owns that
+          if (failures === 1) clearTimeout(hedgeTimer);
+          if (failures === attempts.length) {
+            settled = true;
+            reject(firstError);
+          }
+        }
+      );
+    };
+
+    // The hedge gets what is left of the attempt timeout
+    const hedgeTimer = setTimeout(
+      () => launch(timeoutMs - hedgeAfterMs),
+      hedgeAfterMs
+    );
+    launch(timeoutMs);
+  });
+}
+
+/**
+ * Call `fn` with per-attempt timeouts, retries and optional hedging, within
+ * `policy.budgetMs`. `fn` should pass the signal on to `fetch`.
+ */
+export async function callWithResilience<T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  policy: ResiliencePolicy
+): Promise<T> {
+  const deadline = Date.now() + policy.budgetMs;
+  let retries = 0;
+
+  for (;;) {
+    const remaining = deadline - Date.now();
+    try {
+      return await attemptWithHedge(
+        fn,
+        Math.min(policy.attemptTimeoutMs, remaining),
+        policy.hedgeAfterMs
+      );
+    } catch (err) {
+      if (!isRetryable(err)) throw err;
+
+      let delay: number;
+      if (
+        err instanceof ProviderRequestError &&
+        err.estimatedTimeMs !== undefined
+      ) {
+        // Cold start: wait for the model instead of burning retries
+        delay = err.estimatedTimeMs;
+      } else {
+        if (retries >= policy.maxRetries) throw err;
+        const backoff = Math.min(
+          policy.maxDelayMs,
+          policy.baseDelayMs * 2 ** retries
+        );
+        // Full jitter, but never sooner than the provider asked
+        delay = Math.max(
+          Math.random() * backoff,
+          err instanceof ProviderRequestError ? err.retryAfterMs ?? 0 : 0
+        );
+        retries += 1;
+      }
+
+      // Not worth retrying if the wait leaves no time for the attempt
+      if (Date.now() + delay >= deadline) throw err;
+
+      console.warn(
+        `[CleanMod] Provider call failed (${
+          err instanceof Error ? err.message : String(err)
+        }); retrying in ${Math.round(delay)}ms`
+      );
+      await sleep(delay);
+    }
+  }
+}
@@ -0,0 +1,76 @@
+// src/lib/moderation/rollout.ts
+
+import crypto from "crypto";
+
+/**
+ * Percentage rollouts from one model to another. Assignment is deterministic:
+ * the same input (or end user) always lands in the same bucket of a rollout,
+ * so raising the percentage only moves new buckets to the treatment arm.
+ */
+
+export type RolloutArm = "control" | "treatment";
+
+export type RolloutBucketBy = "input" | "user";
+
+export const ROLLOUT_BUCKET_BY: RolloutBucketBy[] = ["input", "user"];
+
+export type ModelRolloutConfig = {
+  id: string;
+  apiKeyId: string | null; // null = org-wide
+  fromModel: string;
+  toModel: string;
+  percentage: number; // 0–100
+  bucketBy: RolloutBucketBy;
+};
+
+export type RolloutAssignment = {
+  id: string;
+  arm: RolloutArm;
+};
+
+/**
+ * Bucket in [0, 100) for `key` within one rollout. Salting with the rollout
+ * id keeps the arms of different rollouts independent.
+ */
+export function rolloutBucket(rolloutId: string, key: string): number {
+  const digest = crypto
+    .createHash("sha256")
+    .update(`${rolloutId}:${key}`)
+    .digest();
+  // 10_000 buckets, so percentages like 0.5% work
+  return (digest.readUInt32BE(0) % 10_000) / 100;
+}
+
+/**
+ * The rollout that applies to a request for `modelKey`: the API key's own
+ * rollout wins over the org-wide one.
+ */
+export function selectRollout(
+  rollouts: ModelRolloutConfig[],
+  apiKeyId: string | null,
+  modelKey: string
+): ModelRolloutConfig | null {
+  const candidates = rollouts.filter((r) => r.fromModel === modelKey);
+  return (
+    candidates.find((r) => apiKeyId !== null && r.apiKeyId === apiKeyId) ??
+    candidates.find((r) => r.apiKeyId === null) ??
+    null
+  );
+}
+
+/**
+ * Assign a request to an arm. User bucketing falls back to the input when the
+ * request carries no end-user ID.
+ */
+export function assignRolloutArm(
+  rollout: ModelRolloutConfig,
+  input: { text: string; userId?: string | null }
+): RolloutArm {
+  const key =
+    rollout.bucketBy === "user" && input.userId
+      ? `user:${input.userId}`
+      : `input:${input.text}`;
+  return rolloutBucket(rollout.id, key) < rollout.percentage
+    ? "treatment"
+    : "control";
+}
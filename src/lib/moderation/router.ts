@@ -0,0 +1,548 @@
+// src/lib/moderation/router.ts
+
+import type { NormalizedModerationResult, PiiSpan } from "./types";
+import { getProvider, registerProvider, type ProviderName } from "./provider";
+import {
+  applyPolicy,
+  DECISION_SEVERITY,
+  DEFAULT_POLICY,
+  type PolicyConfig,
+} from "./policy";
+import {
+  applyBlocklist,
+  matchTerms,
+  suppressAllowlisted,
+  type TermListEntry,
+} from "./termLists";
+import type { NormalizedText } from "./normalize";
+import { detectPii, piiCategories } from "./pii";
+import { DEFAULT_SPAM_CONFIG, scoreSpam, type SpamConfig } from "./spam";
+import {
+  MIN_LANGUAGE_CONFIDENCE,
+  MIN_LANGUAGE_REJECT_CONFIDENCE,
+  type DetectedLanguage,
+} from "./language";
+import { moderateInChunks } from "./chunking";
+import {
+  combineEnsemble,
+  type EnsembleConfig,
+  type EnsembleMemberResult,
+} from "./ensemble";
+import { resiliencePolicy, type ResiliencePolicy } from "./resilience";
+import { allowRequest, recordFailure, recordSuccess } from "./circuitBreaker";
+import { unitaryProvider } from "./unitaryProvider";
+import { openaiProvider } from "./openaiProvider";
+import {
+  selfHostedProvider,
+  isSelfHostedInferenceConfigured,
+} from "./selfHostedProvider";
+import { moderateWithLexicon } from "./lexicalProvider";
+
+registerProvider(unitaryProvider);
+registerProvider(openaiProvider);
+registerProvider(selfHostedProvider);
+
+export const DEFAULT_MODEL_KEY = "english-basic";
+
+type ProviderTarget = {
+  provider: ProviderName;
+  // Serve with a different model key (a secondary model) instead of the
+  // requested one
+  modelKey?: string;
+};
+
+type ProviderRoute = {
+  provider: ProviderName;
+  // Tried in order when the provider fails or its circuit is open
+  fallbacks: ProviderTarget[];
+  // ISO 639-1 codes the model is trained on, or "*" for any language
+  languages: string[] | "*";
+  // Input limit; longer texts are split into sentence-aware chunks
+  maxTokens: number;
+  // Timeout budget and retries for each provider call (one per chunk)
+  resilience: ResiliencePolicy;
+};
+
+// Fans out to other (provider) model keys in parallel and combines their
+// scores
+type EnsembleRoute = {
+  ensemble: EnsembleConfig;
+  languages: string[] | "*";
+};
+
+type ModelRoute = ProviderRoute | EnsembleRoute;
+
+function isEnsembleRoute(route: ModelRoute): route is EnsembleRoute {
+  return "ensemble" in route;
+}
+
+// "No third-party inference" deployments point SELF_HOSTED_INFERENCE_URL at
+// the internal /predict service instead of calling Hugging Face
+const BASIC_PROVIDER: ProviderName = isSelfHostedInferenceConfigured()
+  ? "self-hosted"
+  : "unitary";
+
+// The same model on Hugging Face backs up the self-hosted service when a
+// token is configured. With Hugging Face as primary the self-hosted service is
+// unset, so there is no counterpart.
+const BASIC_FALLBACKS: ProviderTarget[] =
+  BASIC_PROVIDER === "self-hosted" && process.env.HF_API_TOKEN
+    ? [{ provider: "unitary" }]
+    : [];
+
+// multilingual-toxic-xlm-roberta training languages
+const BASIC_LANGUAGES = ["en", "fr", "es", "it", "pt", "tr", "ru"];
+
+/**
+ * Public model keys accepted by `POST /api/v1/moderate`, the provider that
+ * serves each one and its failover chain. Adding a model means registering a
+ * provider that supports the key and listing it here. When a whole chain is
+ * down the org's failure mode decides (see `lexicalFallback`). Ensemble keys
+ * list other provider model keys as members.
+ */
+export const MODEL_MAP: Record<string, ModelRoute> = {
+  "english-basic": {
+    provider: BASIC_PROVIDER,
+    fallbacks: BASIC_FALLBACKS,
+    languages: BASIC_LANGUAGES,
+    maxTokens: 512,
+    // Budget leaves room to wait out a Hugging Face cold start
+    resilience: resiliencePolicy({ attemptTimeoutMs: 4_000, budgetMs: 15_000 }),
+  },
+  "english-pro": {
+    provider: "openai",
+    fallbacks: [
+      { provider: BASIC_PROVIDER, modelKey: "english-basic" },
+      ...BASIC_FALLBACKS.map((target) => ({
+        ...target,
+        modelKey: "english-basic",
+      })),
+    ],
+    languages: "*",
+    maxTokens: 32_000,
+    // Long inputs take a while to score
+    resilience: resiliencePolicy({ attemptTimeoutMs: 8_000, budgetMs: 20_000 }),
+  },
+  // The cheap model paired with the stricter one, for high-risk surfaces
+  "english-ensemble": {
+    ensemble: {
+      members: [
+        { modelKey: "english-basic", weight: 1 },
+        { modelKey: "english-pro", weight: 2 },
+      ],
+      strategy: "mean",
+      threshold: 0.8,
+    },
+    // Only languages every member covers
+    languages: BASIC_LANGUAGES,
+  },
+};
+
+/**
+ * Model used for a detected language when the request does not name a model
+ * and the default model does not cover the language.
+ */
+export const LANGUAGE_MODELS: Record<string, string> = {
+  de: "english-pro",
+  nl: "english-pro",
+  pl: "english-pro",
+  uk: "english-pro",
+  ar: "english-pro",
+  fa: "english-pro",
+  hi: "english-pro",
+  ja: "english-pro",
+  ko: "english-pro",
+  zh: "english-pro",
+};
+
+/**
+ * Thrown when a request asks for a model key that is not in `MODEL_MAP`.
+ */
+export class UnknownModelError extends Error {
+  constructor(modelKey: string) {
+    super(
+      `Unknown model "${modelKey}". Supported models: ${Object.keys(
+        MODEL_MAP
+      ).join(", ")}.`
+    );
+    this.name = "UnknownModelError";
+  }
+}
+
+/**
+ * Thrown when the detected language is not covered by the model the request
+ * named.
+ */
+export class UnsupportedLanguageError extends Error {
+  constructor(language: string, modelKey: string) {
+    super(
+      `Model "${modelKey}" does not support detected language "${language}".`
+    );
+    this.name = "UnsupportedLanguageError";
+  }
+}
+
+/**
+ * Thrown when every provider in a model's failover chain failed or was
+ * skipped by its circuit breaker.
+ */
+export class ProvidersUnavailableError extends Error {
+  constructor(modelKey: string, cause?: unknown) {
+    super(`All providers for model "${modelKey}" are unavailable.`, { cause });
+    this.name = "ProvidersUnavailableError";
+  }
+}
+
+function supportsLanguage(modelKey: string, language: string): boolean {
+  const languages = MODEL_MAP[modelKey].languages;
+  return languages === "*" || languages.includes(language);
+}
+
+/**
+ * Resolve the requested model key, falling back to the org's default model
+ * (or CleanMod's default) when the request does not specify one.
+ *
+ * When a language was detected with enough confidence, an implicit model is
+ * swapped for the `LANGUAGE_MODELS` entry if the default can't handle it and
+ * the entry is in `allowedModels` (the org's plan); otherwise the default
+ * still scores the text. A model the request names is rejected for a
+ * language it does not support (only above MIN_LANGUAGE_REJECT_CONFIDENCE;
+ * below it the model serves the text).
+ */
+export function resolveModelKey(
+  requested: unknown,
+  fallback: string = DEFAULT_MODEL_KEY,
+  language?: DetectedLanguage | null,
+  allowedModels?: string[]
+): string {
+  const explicit = !(
+    requested === undefined ||
+    requested === null ||
+    requested === ""
+  );
+  if (!explicit) {
+    requested = fallback;
+  }
+
+  if (
+    typeof requested !== "string" ||
+    !Object.prototype.hasOwnProperty.call(MODEL_MAP, requested)
+  ) {
+    throw new UnknownModelError(String(requested));
+  }
+
+  if (
+    !language ||
+    language.code === "und" ||
+    language.confidence < MIN_LANGUAGE_CONFIDENCE ||
+    supportsLanguage(requested, language.code)
+  ) {
+    return requested;
+  }
+
+  if (!explicit) {
+    const languageModel = LANGUAGE_MODELS[language.code];
+    if (
+      languageModel &&
+      supportsLanguage(languageModel, language.code) &&
+      (!allowedModels || allowedModels.includes(languageModel))
+    ) {
+      return languageModel;
+    }
+    // The default model still scores the text, just less well
+    return requested;
+  }
+
+  if (language.confidence < MIN_LANGUAGE_REJECT_CONFIDENCE) {
+    return requested;
+  }
+
+  throw new UnsupportedLanguageError(language.code, requested);
+}
+
+export type ModerationOptions = {
+  policy?: PolicyConfig;
+  terms?: TermListEntry[];
+  // Canonical form from normalizeText(), when the org has normalization enabled
+  normalized?: NormalizedText | null;
+  // Domain deny/allow lists for the spam scorer (defaults to env config)
+  spam?: SpamConfig;
+  // detectLanguage() result, attached to the verdict as-is
+  language?: DetectedLanguage | null;
+  // Score with the local lexical scorer when every provider of the model is
+  // down (the org's "lexical" failure mode) instead of throwing
+  // ProvidersUnavailableError
+  lexicalFallback?: boolean;
+  // Model scores and policy only: no term lists, PII or spam (for a
+  // conversation transcript, whose earlier turns were checked on their own)
+  scoresOnly?: boolean;
+};
+
+/**
+ * Score `text` with the route's provider, falling back along its chain.
+ * Providers with an open circuit are skipped; a call that still fails after
+ * its retries counts toward opening the circuit. The result records the provider that answered.
+ */
+async function moderateWithFailover(
+  route: ProviderRoute,
+  text: string,
+  modelKey: string
+): Promise<NormalizedModerationResult> {
+  const chain: ProviderTarget[] = [
+    { provider: route.provider },
+    ...route.fallbacks,
+  ];
+  let lastError: unknown;
+
+  for (const [index, target] of chain.entries()) {
+    const targetModel = target.modelKey ?? modelKey;
+    const provider = getProvider(target.provider);
+    if (!provider || !provider.supports(targetModel)) continue;
+    if (!allowRequest(target.provider)) continue;
+
+    const mapped = MODEL_MAP[targetModel];
+    const targetRoute = mapped && !isEnsembleRoute(mapped) ? mapped : route;
+    try {
+      const result = await moderateInChunks(
+        provider,
+        text,
+        targetModel,
+        targetRoute.maxTokens,
+        targetRoute.resilience
+      );
+      // A provider's placeholder verdict (e.g. no API token) does not show
+      // it is healthy
+      if (!result.fallback) recordSuccess(target.provider);
+      return index === 0 ? result : { ...result, fallback: true };
+    } catch (err) {
+      recordFailure(target.provider);
+      lastError = err;
+      console.error(
+        `[CleanMod] Provider "${target.provider}" failed for model "${modelKey}":`,
+        err instanceof Error ? err.message : err
+      );
+    }
+  }
+
+  throw new ProvidersUnavailableError(modelKey, lastError);
+}
+
+/**
+ * Score `text` with every ensemble member in parallel (each with its own
+ * failover chain) and combine the members that answered.
+ */
+async function moderateWithEnsemble(
+  config: EnsembleConfig,
+  text: string,
+  modelKey: string
+): Promise<NormalizedModerationResult> {
+  const settled = await Promise.allSettled(
+    config.members.map((member) =>
+      moderateWithFailover(
+        // Checked by assertRouteConfigured()
+        MODEL_MAP[member.modelKey] as ProviderRoute,
+        text,
+        member.modelKey
+      )
+    )
+  );
+
+  const answered: EnsembleMemberResult[] = [];
+  let lastError: unknown;
+  settled.forEach((outcome, i) => {
+    if (outcome.status === "fulfilled") {
+      answered.push({ ...config.members[i], result: outcome.value });
+    } else {
+      lastError = outcome.reason;
+    }
+  });
+
+  if (!answered.length) {
+    throw new ProvidersUnavailableError(modelKey, lastError);
+  }
+
+  return combineEnsemble(answered, config);
+}
+
+/**
+ * Score `text` with the route's providers. With `lexicalFallback`, an outage
+ * of the whole route is answered by the local lexical scorer, marked as
+ * such.
+ */
+async function moderateWithRoute(
+  route: ModelRoute,
+  text: string,
+  modelKey: string,
+  lexicalFallback: boolean
+): Promise<NormalizedModerationResult> {
+  try {
+    return isEnsembleRoute(route)
+      ? await moderateWithEnsemble(route.ensemble, text, modelKey)
+      : await moderateWithFailover(route, text, modelKey);
+  } catch (err) {
+    if (!lexicalFallback || !(err instanceof ProvidersUnavailableError)) {
+      throw err;
+    }
+    return {
+      ...moderateWithLexicon(text),
+      fallback: true,
+      failure_mode: "lexical",
+    };
+  }
+}
+
+/**
+ * Term lists → provider per chunk (+ spam, PII) → allowlist → policy →
+ * blocklist for one text.
+ */
+async function runPipeline(
+  route: ModelRoute,
+  text: string,
+  modelKey: string,
+  options: ModerationOptions,
+  pii: PiiSpan[]
+): Promise<NormalizedModerationResult> {
+  const termMatches = options.scoresOnly
+    ? []
+    : matchTerms(text, options.terms ?? []);
+
+  let result = await moderateWithRoute(
+    route,
+    text,
+    modelKey,
+    options.lexicalFallback ?? false
+  );
+  if (!options.scoresOnly) {
+    const spam = scoreSpam(text, options.spam ?? DEFAULT_SPAM_CONFIG);
+    result = {
+      ...result,
+      overall_score: Math.max(result.overall_score, spam.score),
+      categories: {
+        ...result.categories,
+        spam: spam.score,
+        ...piiCategories(pii),
+      },
+      pii,
+    };
+  }
+  result = suppressAllowlisted(result, termMatches);
+  result = applyPolicy(result, options.policy ?? DEFAULT_POLICY);
+  result = applyBlocklist(result, termMatches);
+
+  return {
+    ...result,
+    matched_terms: termMatches,
+    ...(options.language && { language: options.language }),
+  };
+}
+
+/**
+ * Configuration errors: MODEL_MAP points at a provider that can't serve the
+ * key, or an ensemble member that is not a provider model.
+ */
+function assertRouteConfigured(route: ModelRoute, modelKey: string) {
+  if (isEnsembleRoute(route)) {
+    for (const member of route.ensemble.members) {
+      const memberRoute = MODEL_MAP[member.modelKey];
+      if (!memberRoute || isEnsembleRoute(memberRoute)) {
+        throw new Error(
+          `Ensemble "${modelKey}" member "${member.modelKey}" is not a provider model.`
+        );
+      }
+      assertRouteConfigured(memberRoute, member.modelKey);
+    }
+    return;
+  }
+
+  const provider = getProvider(route.provider);
+  if (!provider || !provider.supports(modelKey)) {
+    throw new Error(
+      `No registered provider "${route.provider}" supports model "${modelKey}".`
+    );
+  }
+}
+
+function isWorse(
+  a: NormalizedModerationResult,
+  b: NormalizedModerationResult
+): boolean {
+  const severityDiff =
+    DECISION_SEVERITY[a.decision] - DECISION_SEVERITY[b.decision];
+  return severityDiff !== 0
+    ? severityDiff > 0
+    : a.overall_score > b.overall_score;
+}
+
+/**
+ * Point a canonical-text result's segment and term spans back into the raw
+ * text, so offsets always index the input the caller sent.
+ */
+function withRawOffsets(
+  result: NormalizedModerationResult,
+  text: string,
+  normalized: NormalizedText
+): NormalizedModerationResult {
+  const { offsets } = normalized;
+  return {
+    ...result,
+    matched_terms: result.matched_terms?.map((term) => ({
+      ...term,
+      match: text.slice(offsets[term.start], offsets[term.end]),
+      start: offsets[term.start],
+      end: offsets[term.end],
+    })),
+    ...(result.segments && {
+      segments: result.segments.map((segment) => ({
+        ...segment,
+        start: offsets[segment.start],
+        end: offsets[segment.end],
+      })),
+    }),
+  };
+}
+
+/**
+ * Dispatch a moderation request to the provider registered for the model key
+ * (or its fallbacks), apply the org's term lists, then compute the decision
+ * with its policy.
+ * With normalization enabled, the canonical text is moderated as well.
+ */
+export async function moderateText(
+  text: string,
+  modelKey: string,
+  options: ModerationOptions = {}
+): Promise<NormalizedModerationResult> {
+  const route = MODEL_MAP[modelKey];
+  if (!route) {
+    throw new UnknownModelError(modelKey);
+  }
+
+  assertRouteConfigured(route, modelKey);
+
+  // PII is always detected on the raw text: normalization would mangle
+  // emails and card numbers, and span offsets must point into the input
+  const pii = options.scoresOnly ? [] : detectPii(text);
+
+  const normalized = options.normalized;
+  if (!normalized || normalized.canonical === text) {
+    const result = await runPipeline(route, text, modelKey, options, pii);
+    return normalized
+      ? { ...result, normalization: { transformations: [], source: "raw" } }
+      : result;
+  }
+
+  // Moderate raw and canonical text side by side and keep the worse verdict
+  const [raw, canonical] = await Promise.all([
+    runPipeline(route, text, modelKey, options, pii),
+    runPipeline(route, normalized.canonical, modelKey, options, pii),
+  ]);
+  const useCanonical = isWorse(canonical, raw);
+
+  return {
+    ...(useCanonical ? withRawOffsets(canonical, text, normalized) : raw),
+    normalization: {
+      transformations: normalized.transformations,
+      source: useCanonical ? "canonical" : "raw",
+    },
+  };
+}
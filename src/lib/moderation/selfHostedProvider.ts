@@ -0,0 +1,205 @@
+// src/lib/moderation/selfHostedProvider.ts
+
+import type { NormalizedModerationResult } from "./types";
+import { AuthenticationError, type ModerationProvider } from "./provider";
+import {
+  extractLabelScores,
+  normalizeLabelScores,
+  type HfLabelScore,
+} from "./labels";
+import { parseRetryAfter, ProviderRequestError } from "./resilience";
+
+export type SelfHostedModelKey = "english-basic";
+
+// Internal inference service (see docs/post-mvp.md), e.g. http://inference:8000
+const SELF_HOSTED_INFERENCE_URL = (
+  process.env.SELF_HOSTED_INFERENCE_URL || ""
+).replace(/\/+$/, "");
+
+const SELF_HOSTED_MODEL_ID =
+  process.env.SELF_HOSTED_MODEL_ID || "unitary/multilingual-toxic-xlm-roberta";
+
+const SELF_HOSTED_TIMEOUT_MS = parseInt(
+  process.env.SELF_HOSTED_TIMEOUT_MS || "3000",
+  10
+);
+
+const MODEL_CONFIG: Record<
+  SelfHostedModelKey,
+  { providerModel: string; defaultThreshold: number }
+> = {
+  "english-basic": {
+    providerModel: SELF_HOSTED_MODEL_ID,
+    defaultThreshold: 0.8,
+  },
+};
+
+/**
+ * Whether an internal inference service is configured. When it is, the router
+ * serves `english-basic` from it instead of Hugging Face.
+ */
+export function isSelfHostedInferenceConfigured(): boolean {
+  return SELF_HOSTED_INFERENCE_URL.length > 0;
+}
+
+/**
+ * Calls the internal `POST /predict` service and normalizes its raw label
+ * scores with the same mapping as the Hugging Face provider.
+ */
+export async function moderateWithSelfHosted(
+  text: string,
+  modelKey: SelfHostedModelKey = "english-basic",
+  signal?: AbortSignal
+): Promise<NormalizedModerationResult> {
+  const startTimer = performance.now();
+  const config = MODEL_CONFIG[modelKey];
+
+  if (!isSelfHostedInferenceConfigured()) {
+    throw new Error(
+      "Self-hosted inference is not configured. Please set the SELF_HOSTED_INFERENCE_URL environment variable."
+    );
+  }
+
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+  };
+  if (process.env.SELF_HOSTED_API_TOKEN) {
+    headers.Authorization = `Bearer ${process.env.SELF_HOSTED_API_TOKEN}`;
+  }
+
+  // The service's own timeout applies on top of the caller's attempt timeout
+  const timeout = AbortSignal.timeout(SELF_HOSTED_TIMEOUT_MS);
+
+  let raw: unknown;
+  try {
+    const response = await fetch(`${SELF_HOSTED_INFERENCE_URL}/predict`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ text }),
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    });
+
+    if (response.status === 401 || response.status === 403) {
+      throw new AuthenticationError(
+        "Self-hosted inference authentication failed. Please check your SELF_HOSTED_API_TOKEN environment variable."
+      );
+    }
+
+    if (!response.ok) {
+      throw new ProviderRequestError(
+        `Moderation service error: inference service responded with ${response.status}`,
+        {
+          status: response.status,
+          retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+        }
+      );
+    }
+
+    raw = await response.json();
+  } catch (err) {
+    if (err instanceof AuthenticationError) throw err;
+    if (err instanceof ProviderRequestError) {
+      console.error("[CleanMod] Self-hosted inference error:", {
+        message: err.message,
+        status: err.status,
+      });
+      throw err;
+    }
+
+    const errorMessage = timeout.aborted
+      ? `request timed out after ${SELF_HOSTED_TIMEOUT_MS}ms`
+      : err instanceof Error
+      ? err.message
+      : String(err);
+    console.error("[CleanMod] Self-hosted inference error:", {
+      message: errorMessage,
+    });
+    // Network failures and timeouts are retryable
+    throw new ProviderRequestError(
+      `Moderation service error: ${errorMessage}`,
+      {
+        cause: err,
+      }
+    );
+  }
+
+  const labelScores = extractPredictScores(raw);
+
+  if (!labelScores.length) {
+    console.error(
+      "[CleanMod] Self-hosted /predict returned no label scores. Raw response:",
+      JSON.stringify(raw, null, 2)
+    );
+    throw new Error(
+      "Moderation service returned invalid response format. Please contact support."
+    );
+  }
+
+  const categories = normalizeLabelScores(labelScores);
+
+  const categoryValues = Object.values(categories) as number[];
+  const overall_score = categoryValues.length ? Math.max(...categoryValues) : 0;
+
+  const threshold = config.defaultThreshold;
+  const is_toxic = overall_score >= threshold;
+  const decision = is_toxic ? "flag" : "allow";
+
+  const result: NormalizedModerationResult = {
+    overall_score,
+    is_toxic,
+    categories,
+    provider: "self-hosted",
+    providerModel: config.providerModel,
+    decision,
+    threshold,
+  };
+
+  const endTimer = performance.now();
+  console.log(
+    `[CleanMod] Self-hosted moderation took ${endTimer - startTimer}ms`
+  );
+
+  return result;
+}
+
+/**
+ * `/predict` returns raw model scores, either as HF-style `{label, score}`
+ * arrays (optionally wrapped in `{ scores }`) or as a `{ [label]: score }` map.
+ */
+function extractPredictScores(raw: unknown): HfLabelScore[] {
+  const payload =
+    raw && typeof raw === "object" && "scores" in raw
+      ? (raw as { scores: unknown }).scores
+      : raw;
+
+  if (Array.isArray(payload)) {
+    return extractLabelScores(payload);
+  }
+
+  if (payload && typeof payload === "object") {
+    return Object.entries(payload as Record<string, unknown>)
+      .filter(([, score]) => typeof score === "number")
+      .map(([label, score]) => ({ label, score: score as number }));
+  }
+
+  return [];
+}
+
+function isSelfHostedModelKey(
+  modelKey: string
+): modelKey is SelfHostedModelKey {
+  return Object.prototype.hasOwnProperty.call(MODEL_CONFIG, modelKey);
+}
+
+export const selfHostedProvider: ModerationProvider = {
+  name: "self-hosted",
+  supports: isSelfHostedModelKey,
+  moderate(text, modelKey, signal) {
+    if (!isSelfHostedModelKey(modelKey)) {
+      throw new Error(
+        `Self-hosted provider does not support model "${modelKey}".`
+      );
+    }
+    return moderateWithSelfHosted(text, modelKey, signal);
+  },
+};
@@ -0,0 +1,186 @@
+// src/lib/moderation/spam.ts
+
+/**
+ * Heuristic spam / link-abuse scorer. Runs locally next to the model provider
+ * and contributes the `spam` category, which counts toward overall_score.
+ *
+ * Each signal produces a 0–1 score; they are combined as independent
+ * evidence (1 - Π(1 - s)), so one strong signal or several weak ones flag.
+ */
+
+export type SpamSignal =
+  | "urls"
+  | "denied_domain"
+  | "all_caps"
+  | "repeated_chars"
+  | "repeated_words"
+  | "crypto_bait"
+  | "phone_bait";
+
+export type SpamScore = {
+  score: number;
+  signals: Partial<Record<SpamSignal, number>>;
+};
+
+export type SpamConfig = {
+  // Domains (and their subdomains) that are always treated as spam links
+  deniedDomains: string[];
+  // Domains that never count toward the URL signals
+  allowedDomains: string[];
+};
+
+// Link shorteners hide the destination and are the usual spam vehicle
+const SHORTENER_DOMAINS = [
+  "bit.ly",
+  "tinyurl.com",
+  "t.co",
+  "goo.gl",
+  "ow.ly",
+  "is.gd",
+  "buff.ly",
+  "cutt.ly",
+  "rebrand.ly",
+  "shorturl.at",
+  "rb.gy",
+  "t.ly",
+];
+
+function parseDomainList(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((d) => d.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Built-in config: the shortener denylist plus SPAM_DENIED_DOMAINS /
+ * SPAM_ALLOWED_DOMAINS (comma-separated) from the environment.
+ */
+export const DEFAULT_SPAM_CONFIG: SpamConfig = {
+  deniedDomains: [
+    ...SHORTENER_DOMAINS,
+    ...parseDomainList(process.env.SPAM_DENIED_DOMAINS),
+  ],
+  allowedDomains: parseDomainList(process.env.SPAM_ALLOWED_DOMAINS),
+};
+
+const URL_RE =
+  /(?:https?:\/\/|www\.)[^\s<>"']+|(?<![\w@.-])(?:[a-z0-9-]+\.)+(?:com|net|org|io|ly|gg|xyz|info|biz|ru|top|click|link|me|co|at|gd|gy)\/[^\s<>"']*/gi;
+
+const CRYPTO_BAIT_RE =
+  /\b(?:crypto|bitcoin|btc|eth(?:ereum)?|usdt|airdrop|giveaway|double your|wallet|forex|guaranteed (?:profit|returns?)|passive income|investment opportunity)\b/gi;
+
+const PHONE_BAIT_RE =
+  /\b(?:call|text|whatsapp|telegram|dm|contact)\b(?: (?:me|us|now))?(?: (?:on|at))?[\s:]*\+?\d[\d\s().-]{6,}\d/i;
+
+const REPEATED_CHARS_RE = /(.)\1{3,}/gu;
+
+// A word pair must occur this often to count as pasted repetition, and at
+// least once per PHRASE_REPEAT_WORDS words, since common pairs ("of the")
+// recur naturally in long texts
+const MIN_PHRASE_REPEATS = 3;
+const PHRASE_REPEAT_WORDS = 50;
+
+function hostnameOf(url: string): string | null {
+  try {
+    const withScheme = /^https?:\/\//i.test(url) ? url : `http://${url}`;
+    return new URL(withScheme).hostname.toLowerCase().replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+}
+
+function domainMatches(hostname: string, domains: string[]): boolean {
+  return domains.some((d) => hostname === d || hostname.endsWith(`.${d}`));
+}
+
+/**
+ * Share of `words` inside word pairs that repeat often enough to be pasted
+ * ("buy now buy now buy now": 1).
+ */
+function repeatedPhraseCoverage(words: string[]): number {
+  const starts = new Map<string, number[]>();
+  for (let i = 0; i + 1 < words.length; i++) {
+    const pair = `${words[i]} ${words[i + 1]}`;
+    const list = starts.get(pair);
+    if (list) list.push(i);
+    else starts.set(pair, [i]);
+  }
+
+  const minRepeats = Math.max(
+    MIN_PHRASE_REPEATS,
+    Math.ceil(words.length / PHRASE_REPEAT_WORDS)
+  );
+  const covered = new Set<number>();
+  for (const list of starts.values()) {
+    if (list.length < minRepeats) continue;
+    for (const i of list) covered.add(i).add(i + 1);
+  }
+  return covered.size / words.length;
+}
+
+/**
+ * Score `text` for spam. Returns the combined score and each signal that
+ * fired (for debugging and the dashboard).
+ */
+export function scoreSpam(
+  text: string,
+  config: SpamConfig = DEFAULT_SPAM_CONFIG
+): SpamScore {
+  const signals: SpamScore["signals"] = {};
+
+  // URL count, ignoring allowlisted domains
+  const hostnames = Array.from(text.matchAll(URL_RE), (m) =>
+    hostnameOf(m[0])
+  ).filter(
+    (h): h is string => h !== null && !domainMatches(h, config.allowedDomains)
+  );
+  if (hostnames.length > 0) {
+    signals.urls = Math.min(1, hostnames.length * 0.25);
+  }
+  if (hostnames.some((h) => domainMatches(h, config.deniedDomains))) {
+    signals.denied_domain = 0.9;
+  }
+
+  // Shouting: mostly upper-case letters in a non-trivial message
+  const letters = text.match(/\p{L}/gu) ?? [];
+  if (letters.length >= 20) {
+    const upper = letters.filter(
+      (c) => c === c.toUpperCase() && c !== c.toLowerCase()
+    ).length;
+    const ratio = upper / letters.length;
+    if (ratio > 0.7) signals.all_caps = 0.4 * ratio;
+  }
+
+  // Character repetition: share of the text inside runs of 4+ ("!!!!!!", "heyyyyy")
+  const repeatedChars = Array.from(text.matchAll(REPEATED_CHARS_RE)).reduce(
+    (sum, m) => sum + m[0].length,
+    0
+  );
+  if (repeatedChars > 0 && text.length > 0) {
+    signals.repeated_chars = Math.min(0.6, (repeatedChars / text.length) * 2);
+  }
+
+  // Word repetition: the same phrase pasted over and over. Measured as the
+  // share of words inside repeated word pairs, not the vocabulary size,
+  // which shrinks relative to length in any long prose
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (words.length >= 6) {
+    const coverage = repeatedPhraseCoverage(words);
+    if (coverage > 0.5) signals.repeated_words = coverage;
+  }
+
+  const cryptoHits = text.match(CRYPTO_BAIT_RE)?.length ?? 0;
+  if (cryptoHits > 0) {
+    signals.crypto_bait = Math.min(0.9, cryptoHits * 0.3);
+  }
+
+  if (PHONE_BAIT_RE.test(text)) {
+    signals.phone_bait = 0.6;
+  }
+
+  const score =
+    1 - (Object.values(signals) as number[]).reduce((p, s) => p * (1 - s), 1);
+
+  return { score: Math.round(score * 1000) / 1000, signals };
+}
@@ -0,0 +1,330 @@
+// src/lib/moderation/termLists.ts
+
+import type {
+  ModerationDecision,
+  NormalizedCategories,
+  NormalizedModerationResult,
+  TermMatch,
+} from "./types";
+import { RE2JS } from "re2js";
+import { PII_CATEGORIES } from "./pii";
+
+export type TermListKind = "block" | "allow";
+export type TermMatchType = "exact" | "word" | "regex";
+
+export const TERM_MATCH_TYPES: TermMatchType[] = ["exact", "word", "regex"];
+
+const MAX_PATTERN_LENGTH = 200;
+// Cap per entry so a pattern like "a" can't blow up the response
+const MAX_MATCHES_PER_ENTRY = 10;
+
+// Compiled patterns kept in-process, so pipeline runs don't recompile every
+// entry
+const COMPILED_PATTERN_CACHE_MAX_ENTRIES = 5000;
+
+/**
+ * One org-managed term list entry.
+ * - Blocklist entries force at least `action` (flag/block) when they match.
+ * - Allowlist entries zero out `category` (or every category when null).
+ */
+export type TermListEntry = {
+  id: string;
+  list: TermListKind;
+  matchType: TermMatchType;
+  pattern: string;
+  action: Exclude<ModerationDecision, "allow"> | null;
+  category: keyof NormalizedCategories | null;
+};
+
+/**
+ * A compiled entry. Literal patterns are plain RegExps; org regexes run on
+ * RE2, whose matching time is linear in the input (no catastrophic
+ * backtracking on patterns like `(a+)+$`).
+ */
+export type CompiledTermPattern = RegExp | RE2JS;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Compile an entry, case-insensitively.
+ * - exact: the literal text anywhere in the input
+ * - word:  the literal text on word boundaries (Unicode-aware)
+ * - regex: an RE2 regular expression (no lookarounds or backreferences)
+ * Throws on an invalid regex.
+ */
+export function compileTermPattern(
+  matchType: TermMatchType,
+  pattern: string
+): CompiledTermPattern {
+  switch (matchType) {
+    case "exact":
+      return new RegExp(escapeRegExp(pattern), "giu");
+    case "word":
+      return new RegExp(
+        `(?<![\\p{L}\\p{N}_])${escapeRegExp(pattern)}(?![\\p{L}\\p{N}_])`,
+        "giu"
+      );
+    case "regex":
+      return RE2JS.compile(pattern, RE2JS.CASE_INSENSITIVE);
+  }
+}
+
+// Map iteration order is insertion order, so re-inserting on read keeps the
+// least recently used entry first. Invalid patterns are cached as null.
+const compiledPatterns = new Map<string, CompiledTermPattern | null>();
+
+function getCompiledPattern(
+  matchType: TermMatchType,
+  pattern: string
+): CompiledTermPattern | null {
+  const key = `${matchType}\n${pattern}`;
+
+  let compiled = compiledPatterns.get(key);
+  if (compiled === undefined) {
+    try {
+      compiled =
+        matchType === "regex" && hasNestedQuantifier(pattern)
+          ? null
+          : compileTermPattern(matchType, pattern);
+    } catch {
+      compiled = null;
+    }
+  }
+
+  compiledPatterns.delete(key);
+  compiledPatterns.set(key, compiled);
+  while (compiledPatterns.size > COMPILED_PATTERN_CACHE_MAX_ENTRIES) {
+    const oldest = compiledPatterns.keys().next().value;
+    if (oldest === undefined) break;
+    compiledPatterns.delete(oldest);
+  }
+
+  return compiled;
+}
+
+/**
+ * Every non-empty match of a compiled pattern, up to `limit`.
+ */
+function findMatches(
+  compiled: CompiledTermPattern,
+  text: string,
+  limit: number
+): { match: string; start: number; end: number }[] {
+  const found: { match: string; start: number; end: number }[] = [];
+
+  if (compiled instanceof RegExp) {
+    for (const m of text.matchAll(compiled)) {
+      if (m[0].length === 0 || m.index === undefined) continue;
+      found.push({ match: m[0], start: m.index, end: m.index + m[0].length });
+      if (found.length >= limit) break;
+    }
+    return found;
+  }
+
+  const matcher = compiled.matcher(text);
+  while (found.length < limit && matcher.find()) {
+    const start = matcher.start();
+    const end = matcher.end();
+    if (end > start) {
+      found.push({ match: text.slice(start, end), start, end });
+    }
+  }
+  return found;
+}
+
+/**
+ * True if a quantified group contains another quantifier, e.g. `(a+)+` or
+ * `(\w*\s?)*`. RE2 runs these in linear time too, but they are never needed
+ * for a term and are the usual sign of a pattern written for a backtracking
+ * engine, so they are rejected on save.
+ */
+export function hasNestedQuantifier(pattern: string): boolean {
+  // Per open group: whether it contains a quantifier so far
+  const groups: boolean[] = [];
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === "\\") {
+      i++;
+      continue;
+    }
+    if (char === "[") {
+      // Skip the character class; quantifier characters in it are literals
+      for (i++; i < pattern.length && pattern[i] !== "]"; i++) {
+        if (pattern[i] === "\\") i++;
+      }
+      continue;
+    }
+    if (char === "(") {
+      groups.push(false);
+      // "(?:", "(?i)", "(?P<name>": this "?" is group syntax
+      if (pattern[i + 1] === "?") i++;
+      continue;
+    }
+
+    const quantifier =
+      char === "*" || char === "+" || char === "?"
+        ? char
+        : /^\{\d+(?:,\d*)?\}/.exec(pattern.slice(i))?.[0];
+    if (quantifier) {
+      if (groups.length > 0) groups[groups.length - 1] = true;
+      i += quantifier.length - 1;
+      continue;
+    }
+
+    if (char === ")") {
+      const quantified = groups.pop() ?? false;
+      const next = pattern.slice(i + 1);
+      if (quantified && /^(?:[*+?]|\{\d+(?:,\d*)?\})/.test(next)) {
+        return true;
+      }
+      if (quantified && groups.length > 0) {
+        groups[groups.length - 1] = true;
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Validate a pattern before it is saved. Returns an error message or null.
+ */
+export function validateTermPattern(
+  matchType: TermMatchType,
+  pattern: string
+): string | null {
+  if (!TERM_MATCH_TYPES.includes(matchType)) {
+    return "Unknown match type";
+  }
+  if (pattern.trim().length === 0) {
+    return "Pattern cannot be empty";
+  }
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    return `Pattern must be ${MAX_PATTERN_LENGTH} characters or less`;
+  }
+  if (matchType === "regex" && hasNestedQuantifier(pattern)) {
+    return "Regular expressions cannot repeat a group that contains a quantifier, e.g. (a+)+";
+  }
+
+  let compiled: CompiledTermPattern;
+  try {
+    compiled = compileTermPattern(matchType, pattern);
+  } catch {
+    return matchType === "regex"
+      ? "Invalid regular expression (lookarounds and backreferences are not supported)"
+      : "Invalid pattern";
+  }
+  if (compiled.test("")) {
+    return "Pattern must not match empty text";
+  }
+  return null;
+}
+
+/**
+ * Find every term list hit in the text.
+ * Entries that fail to compile are skipped (they are validated on save).
+ */
+export function matchTerms(
+  text: string,
+  entries: TermListEntry[]
+): TermMatch[] {
+  const matches: TermMatch[] = [];
+
+  for (const entry of entries) {
+    const compiled = getCompiledPattern(entry.matchType, entry.pattern);
+    if (!compiled) {
+      console.error(
+        `[CleanMod] Skipping invalid term list pattern ${entry.id}`
+      );
+      continue;
+    }
+
+    for (const m of findMatches(compiled, text, MAX_MATCHES_PER_ENTRY)) {
+      matches.push({
+        id: entry.id,
+        list: entry.list,
+        match_type: entry.matchType,
+        pattern: entry.pattern,
+        match: m.match,
+        start: m.start,
+        end: m.end,
+        action: entry.action,
+        category: entry.category,
+      });
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Zero out category scores suppressed by allowlist hits and recompute
+ * overall_score. Run before the policy engine.
+ */
+export function suppressAllowlisted(
+  result: NormalizedModerationResult,
+  matches: TermMatch[]
+): NormalizedModerationResult {
+  const allowMatches = matches.filter((m) => m.list === "allow");
+  if (allowMatches.length === 0) return result;
+
+  const categories: NormalizedCategories = { ...result.categories };
+  for (const match of allowMatches) {
+    const suppressed = match.category
+      ? [match.category]
+      : (Object.keys(categories) as (keyof NormalizedCategories)[]);
+    for (const category of suppressed) {
+      if (categories[category] !== undefined) categories[category] = 0;
+    }
+  }
+
+  const categoryValues = Object.entries(categories)
+    .filter(
+      ([category]) =>
+        !PII_CATEGORIES.includes(category as keyof NormalizedCategories)
+    )
+    .map(([, score]) => score as number);
+  const overall_score = categoryValues.length ? Math.max(...categoryValues) : 0;
+
+  return { ...result, categories, overall_score };
+}
+
+/**
+ * Escalate the decision for blocklist hits. Run after the policy engine.
+ * A blocklist hit never lowers a decision the policy already made.
+ */
+export function applyBlocklist(
+  result: NormalizedModerationResult,
+  matches: TermMatch[]
+): NormalizedModerationResult {
+  const blockMatches = matches.filter((m) => m.list === "block");
+  if (blockMatches.length === 0) return result;
+
+  const strongest =
+    blockMatches.find((m) => m.action === "block") ?? blockMatches[0];
+  const action = strongest.action ?? "flag";
+
+  if (
+    result.decision === "block" ||
+    (result.decision === "flag" && action === "flag")
+  ) {
+    return result;
+  }
+
+  return {
+    ...result,
+    decision: action,
+    is_toxic: true,
+    rule: {
+      category: "blocklist",
+      action,
+      threshold: 1,
+      score: 1,
+      term: strongest.pattern,
+    },
+  };
+}
@@ -9,15 +9,140 @@ export type NormalizedCategories = {
   threat?: number;
   obscene?: number;
   sexual?: number;
-  // extend later with hate, self_harm, etc.
+  // OpenAI omni-moderation families and sub-categories
+  harassment?: number;
+  harassment_threatening?: number;
+  hate?: number;
+  hate_threatening?: number;
+  self_harm?: number;
+  self_harm_intent?: number;
+  self_harm_instructions?: number;
+  sexual_minors?: number;
+  violence?: number;
+  violence_graphic?: number;
+  // Local heuristic scorer (URLs, repetition, bait); counts toward overall_score
+  spam?: number;
+  // Local PII detector (not part of overall_score)
+  pii?: number;
+  pii_email?: number;
+  pii_phone?: number;
+  pii_credit_card?: number;
+  pii_iban?: number;
+  pii_address?: number;
+};
+
+/**
+ * The policy rule that decided a non-"allow" result.
+ */
+export type PolicyRuleMatch = {
+  category: keyof NormalizedCategories | "overall" | "blocklist";
+  action: Exclude<ModerationDecision, "allow">;
+  threshold: number;
+  score: number;
+  term?: string; // blocklist pattern that forced the decision
+};
+
+/**
+ * An org term list hit, with character offsets into the moderated text.
+ */
+export type TermMatch = {
+  id: string;
+  list: "block" | "allow";
+  match_type: "exact" | "word" | "regex";
+  pattern: string;
+  match: string;
+  start: number;
+  end: number;
+  action: Exclude<ModerationDecision, "allow"> | null; // blocklist
+  category: keyof NormalizedCategories | null; // allowlist (null = all)
+};
+
+export type PiiType = "email" | "phone" | "credit_card" | "iban" | "address";
+
+/**
+ * A detected PII span, with character offsets into the request text.
+ */
+export type PiiSpan = {
+  type: PiiType;
+  start: number;
+  end: number;
+};
+
+/**
+ * Scores for one chunk of a long text, with character offsets into the
+ * moderated text.
+ */
+export type ModerationSegment = {
+  start: number;
+  end: number;
+  overall_score: number;
+  categories: NormalizedCategories;
+};
+
+export type EnsembleStrategy = "mean" | "max" | "vote";
+
+// End-user risk from their recent flags and blocks
+export type RiskTier = "low" | "elevated" | "high";
+
+/**
+ * One ensemble member's scores, before they were combined.
+ */
+export type EnsembleMemberScore = {
+  model: string; // CleanMod model key
+  weight: number;
+  provider: NormalizedModerationResult["provider"];
+  providerModel: string;
+  overall_score: number;
+  categories: NormalizedCategories;
+  fallback: boolean;
 };
 
 export interface NormalizedModerationResult {
   overall_score: number; // 0–1 (max or weighted score)
   is_toxic: boolean;
   categories: NormalizedCategories;
-  provider: "unitary" | "openai";
+  provider:
+    | "unitary"
+    | "openai"
+    | "self-hosted"
+    | "lexical"
+    | "ensemble"
+    | "none"; // "none": degraded
   providerModel: string;
   decision: ModerationDecision;
   threshold: number; // used for is_toxic/decision
+  rule?: PolicyRuleMatch | null; // set once the policy engine has run
+  fallback?: boolean; // answered by a fallback provider, not the model's primary
+  degraded?: boolean; // every provider was down; decision from the org's failure mode
+  // The org's failure mode that answered because every provider was down:
+  // "lexical" (scored by the lexical scorer) or "open"/"closed" (degraded)
+  failure_mode?: "lexical" | "open" | "closed";
+  matched_terms?: TermMatch[];
+  pii?: PiiSpan[];
+  segments?: ModerationSegment[];
+  // Per-member scores when the model key is an ensemble
+  ensemble?: {
+    strategy: EnsembleStrategy;
+    members: EnsembleMemberScore[];
+  };
+  // Set when the end user's risk tier escalated the decision by one step
+  escalation?: {
+    risk_tier: RiskTier;
+    from: ModerationDecision;
+    margin: number; // how far the policy lowered the thresholds
+  };
+  // Conversation endpoint: the final message scored with the earlier turns
+  thread_context?: {
+    decision: ModerationDecision;
+    overall_score: number;
+    messages: number; // turns in the context window, including the final one
+  };
+  language?: {
+    code: string; // ISO 639-1, "und" when undetermined
+    confidence: number;
+  };
+  normalization?: {
+    transformations: string[]; // e.g. ["leetspeak", "zero_width"]
+    source: "raw" | "canonical"; // which text produced this verdict
+  };
 }
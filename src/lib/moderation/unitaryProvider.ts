@@ -2,24 +2,20 @@
 
 import { InferenceClient } from "@huggingface/inference";
 import type { NormalizedModerationResult } from "./types";
+import { AuthenticationError, type ModerationProvider } from "./provider";
+import { extractLabelScores, normalizeLabelScores } from "./labels";
+import { ProviderRequestError } from "./resilience";
 
 export type UnitaryModelKey = "english-basic";
 
-/**
- * Custom error class for authentication failures with the moderation provider.
- * This allows for type-safe error checking using instanceof.
- */
-export class AuthenticationError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = "AuthenticationError";
-  }
-}
-
 // Model config
 const HF_MODEL_ID =
   process.env.HF_MODEL_ID || "unitary/multilingual-toxic-xlm-roberta";
 
+// Dedicated Inference Endpoint (or a local mock server in tests); unset routes
+// through the HF Inference Providers API
+const HF_ENDPOINT_URL = process.env.HF_ENDPOINT_URL || undefined;
+
 const MODEL_CONFIG: Record<
   UnitaryModelKey,
   { providerModel: string; defaultThreshold: number }
@@ -30,8 +26,6 @@ const MODEL_CONFIG: Record<
   },
 };
 
-type HfLabelScore = { label: string; score: number };
-
 // Re-use one client per process (lazy initialization)
 let hfClient: InferenceClient | null = null;
 
@@ -43,7 +37,7 @@ function getHfClient(): InferenceClient {
         "Hugging Face API token is not configured. Please set the HF_API_TOKEN environment variable."
       );
     }
-    hfClient = new InferenceClient(token);
+    hfClient = new InferenceClient(token, { endpointUrl: HF_ENDPOINT_URL });
   }
   return hfClient;
 }
@@ -54,7 +48,8 @@ function getHfClient(): InferenceClient {
  */
 export async function moderateWithUnitary(
   text: string,
-  modelKey: UnitaryModelKey = "english-basic"
+  modelKey: UnitaryModelKey = "english-basic",
+  signal?: AbortSignal
 ): Promise<NormalizedModerationResult> {
   const startTimer = performance.now();
   const config = MODEL_CONFIG[modelKey];
@@ -69,11 +64,16 @@ export async function moderateWithUnitary(
   let raw: unknown;
   try {
     const hf = getHfClient();
-    raw = await hf.textClassification({
-      model: HF_MODEL_ID,
-      inputs: text,
-      // provider: 'hf-inference', // optional – default "auto" will route via HF Inference
-    });
+    raw = await hf.textClassification(
+      {
+        model: HF_MODEL_ID,
+        inputs: text,
+        // provider: 'hf-inference', // optional – default "auto" will route via HF Inference
+      },
+      // The client retries 503s immediately and forever; cold starts and
+      // retries are handled by the resilience layer instead
+      { signal, retry_on_error: false }
+    );
   } catch (err) {
     // Extract status code from nested HTTP response objects if available
     const httpResponse = (err as any)?.httpResponse;
@@ -109,6 +109,18 @@ export async function moderateWithUnitary(
       );
     }
 
+    // HTTP and network failures are retryable by the resilience layer
+    if (typeof status === "number" || isNetworkError(err)) {
+      throw new ProviderRequestError(
+        `Moderation service error: ${errorMessage}`,
+        {
+          status: typeof status === "number" ? status : undefined,
+          estimatedTimeMs: getEstimatedTimeMs(httpResponse?.body),
+          cause: err,
+        }
+      );
+    }
+
     // For any other errors, throw instead of falling back to "allow"
     // This ensures we don't silently allow content when moderation fails
     throw new Error(`Moderation service error: ${errorMessage}`);
@@ -127,40 +139,9 @@ export async function moderateWithUnitary(
     );
   }
 
-  const categories: Record<string, number> = {};
-
-  for (const item of labelScores) {
-    if (!item || typeof item.label !== "string") continue;
-    const label = item.label.toLowerCase();
-    const score = typeof item.score === "number" ? item.score : 0;
-
-    if (label.includes("tox")) {
-      categories.toxicity = maxCat(categories.toxicity, score);
-    } else if (label.includes("insult")) {
-      categories.insult = maxCat(categories.insult, score);
-    } else if (label.includes("identity") || label.includes("id_hate")) {
-      categories.identity_attack = maxCat(categories.identity_attack, score);
-    } else if (label.includes("threat")) {
-      categories.threat = maxCat(categories.threat, score);
-    } else if (label.includes("obscene") || label.includes("curse")) {
-      categories.obscene = maxCat(categories.obscene, score);
-    } else if (label.includes("sexual")) {
-      categories.sexual = maxCat(categories.sexual, score);
-    }
-  }
-
-  // If the model is very binary (e.g. label like "toxic"/"not toxic"),
-  // make sure we still populate toxicity.
-  if (Object.keys(categories).length === 0 && labelScores.length > 0) {
-    const toxicLike = labelScores.find((i) =>
-      i.label.toLowerCase().includes("tox")
-    );
-    if (toxicLike && typeof toxicLike.score === "number") {
-      categories.toxicity = toxicLike.score;
-    }
-  }
+  const categories = normalizeLabelScores(labelScores);
 
-  const categoryValues = Object.values(categories);
+  const categoryValues = Object.values(categories) as number[];
   const overall_score = categoryValues.length ? Math.max(...categoryValues) : 0;
 
   const threshold = config.defaultThreshold;
@@ -183,31 +164,6 @@ export async function moderateWithUnitary(
   return result;
 }
 
-/**
- * HF client *usually* returns an array of {label, score}, but older / different
- * pipelines can nest it one level deeper. Handle both.
- */
-function extractLabelScores(raw: unknown): HfLabelScore[] {
-  if (!Array.isArray(raw)) return [];
-
-  // Case 1: [ { label, score }, ... ]
-  if (raw.length && !Array.isArray(raw[0])) {
-    return raw as HfLabelScore[];
-  }
-
-  // Case 2: [ [ { label, score }, ... ] ]
-  if (raw.length && Array.isArray(raw[0])) {
-    return (raw[0] as HfLabelScore[]) || [];
-  }
-
-  return [];
-}
-
-function maxCat(existing: number | undefined, next: number): number {
-  if (existing === undefined) return next;
-  return next > existing ? next : existing;
-}
-
 // Authentication-related keywords for error message detection
 const AUTH_KEYWORDS = [
   "unauthorized",
@@ -241,6 +197,43 @@ function isAuthenticationError(err: unknown): boolean {
   return AUTH_KEYWORDS.some((keyword) => lowerMessage.includes(keyword));
 }
 
+function isNetworkError(err: unknown): boolean {
+  // fetch() rejects with a TypeError when the connection fails
+  return (
+    err instanceof TypeError ||
+    (err instanceof Error && err.name === "AbortError")
+  );
+}
+
+/**
+ * Cold-start responses ("Model ... is currently loading") carry the expected
+ * load time in seconds as `estimated_time`.
+ */
+function getEstimatedTimeMs(body: unknown): number | undefined {
+  const estimated =
+    body && typeof body === "object"
+      ? (body as { estimated_time?: unknown }).estimated_time
+      : undefined;
+  return typeof estimated === "number" && estimated > 0
+    ? estimated * 1000
+    : undefined;
+}
+
+function isUnitaryModelKey(modelKey: string): modelKey is UnitaryModelKey {
+  return Object.prototype.hasOwnProperty.call(MODEL_CONFIG, modelKey);
+}
+
+export const unitaryProvider: ModerationProvider = {
+  name: "unitary",
+  supports: isUnitaryModelKey,
+  moderate(text, modelKey, signal) {
+    if (!isUnitaryModelKey(modelKey)) {
+      throw new Error(`Unitary provider does not support model "${modelKey}".`);
+    }
+    return moderateWithUnitary(text, modelKey, signal);
+  },
+};
+
 function buildFallbackResult(
   providerModel: string,
   threshold: number
@@ -253,5 +246,8 @@ function buildFallbackResult(
     providerModel,
     decision: "allow",
     threshold,
+    // Not a model verdict: kept out of the verdict cache and the circuit
+    // breaker's successes
+    fallback: true,
   };
 }
@@ -0,0 +1,38 @@
+import { prisma } from "./db";
+import {
+  DEFAULT_POLICY,
+  parsePolicyConfig,
+  type PolicyConfig,
+} from "./moderation/policy";
+import { DEFAULT_MODEL_KEY } from "./moderation/router";
+
+export type ActivePolicy = {
+  version: number | null; // null when the org has never saved a policy
+  defaultModel: string;
+  config: PolicyConfig;
+};
+
+/**
+ * Load the organization's active (latest) moderation policy.
+ * Falls back to CleanMod's built-in default policy.
+ */
+export async function getActivePolicy(orgId: string): Promise<ActivePolicy> {
+  const policy = await prisma.moderationPolicy.findFirst({
+    where: { orgId },
+    orderBy: { version: "desc" },
+  });
+
+  if (!policy) {
+    return {
+      version: null,
+      defaultModel: DEFAULT_MODEL_KEY,
+      config: DEFAULT_POLICY,
+    };
+  }
+
+  return {
+    version: policy.version,
+    defaultModel: policy.defaultModel,
+    config: parsePolicyConfig(policy.rules),
+  };
+}
@@ -0,0 +1,221 @@
+import type { ApiKey } from "@prisma/client";
+import { prisma } from "./db";
+
+/**
+ * Token-bucket rate limits for the public API, per API key and per org.
+ *
+ * Each bucket holds up to one minute's worth of requests and refills
+ * continuously, so a client can burst up to its limit and then sustain
+ * `limit` requests per minute. Limits come from the org's plan (or the
+ * defaults below); an API key can override its own limit.
+ *
+ * Bucket state lives in process by default. Register a shared backend
+ * (e.g. Redis) with `setRateLimitBackend()` so every instance enforces the
+ * same limits.
+ */
+
+const DEFAULT_ORG_RATE_LIMIT = parseInt(
+  process.env.DEFAULT_ORG_RATE_LIMIT_PER_MINUTE || "120",
+  10
+);
+
+const DEFAULT_KEY_RATE_LIMIT = parseInt(
+  process.env.DEFAULT_KEY_RATE_LIMIT_PER_MINUTE || "60",
+  10
+);
+
+// In-process buckets kept; the least recently used one is dropped (refilled)
+const RATE_LIMIT_MAX_BUCKETS = parseInt(
+  process.env.RATE_LIMIT_MAX_BUCKETS || "10000",
+  10
+);
+
+const MINUTE_IN_MS = 60_000;
+
+export type RateLimitScope = "key" | "org";
+
+export type BucketRequest = {
+  id: string;
+  limitPerMinute: number;
+};
+
+export type BucketState = {
+  tokens: number; // left after this request (fractional while refilling)
+  updatedAt: number; // epoch ms
+};
+
+/**
+ * Where bucket state lives. `take` must be atomic across the buckets: take
+ * one token from each, or from none if any has less than one.
+ */
+export interface RateLimitBackend {
+  take(
+    buckets: BucketRequest[],
+    now: number
+  ): Promise<{ allowed: boolean; states: BucketState[] }>;
+}
+
+/**
+ * Tokens in a bucket at `now`, refilled at `limitPerMinute` per minute.
+ */
+export function refillTokens(
+  state: BucketState | undefined,
+  limitPerMinute: number,
+  now: number
+): number {
+  if (!state) return limitPerMinute;
+  const elapsed = Math.max(0, now - state.updatedAt);
+  return Math.min(
+    limitPerMinute,
+    state.tokens + (elapsed * limitPerMinute) / MINUTE_IN_MS
+  );
+}
+
+// Map iteration order is insertion order, so re-inserting on write keeps the
+// least recently used bucket first
+const memoryBuckets = new Map<string, BucketState>();
+
+export const memoryRateLimitBackend: RateLimitBackend = {
+  async take(buckets, now) {
+    const tokens = buckets.map((bucket) =>
+      refillTokens(memoryBuckets.get(bucket.id), bucket.limitPerMinute, now)
+    );
+    const allowed = tokens.every((available) => available >= 1);
+
+    const states = buckets.map((bucket, i) => {
+      const state = {
+        tokens: allowed ? tokens[i] - 1 : tokens[i],
+        updatedAt: now,
+      };
+      memoryBuckets.delete(bucket.id);
+      memoryBuckets.set(bucket.id, state);
+      return state;
+    });
+
+    while (memoryBuckets.size > RATE_LIMIT_MAX_BUCKETS) {
+      const oldest = memoryBuckets.keys().next().value;
+      if (oldest === undefined) break;
+      memoryBuckets.delete(oldest);
+    }
+
+    return { allowed, states };
+  },
+};
+
+let backend: RateLimitBackend = memoryRateLimitBackend;
+
+/**
+ * Use a shared backend; `null` goes back to the in-process one.
+ */
+export function setRateLimitBackend(shared: RateLimitBackend | null) {
+  backend = shared ?? memoryRateLimitBackend;
+}
+
+/**
+ * An org's requests-per-minute limits from its plan: org-wide, and the
+ * default for each of its API keys.
+ */
+export async function getPlanRateLimits(
+  orgId: string
+): Promise<Record<RateLimitScope, number>> {
+  const activeSub = await prisma.subscription.findFirst({
+    where: { orgId, status: "active" },
+    select: {
+      plan: {
+        select: { rateLimitPerMinute: true, keyRateLimitPerMinute: true },
+      },
+    },
+  });
+  const plan = activeSub?.plan;
+
+  return {
+    key: plan?.keyRateLimitPerMinute ?? DEFAULT_KEY_RATE_LIMIT,
+    org: plan?.rateLimitPerMinute ?? DEFAULT_ORG_RATE_LIMIT,
+  };
+}
+
+/**
+ * The limits that apply to an API key: its own override, if set, and its
+ * org's plan limits.
+ */
+export async function getRateLimits(
+  apiKey: ApiKey
+): Promise<Record<RateLimitScope, number>> {
+  const plan = await getPlanRateLimits(apiKey.orgId);
+  return { key: apiKey.rateLimitPerMinute ?? plan.key, org: plan.org };
+}
+
+export type RateLimitResult = {
+  allowed: boolean;
+  scope: RateLimitScope; // the bucket reported in the headers
+  limit: number; // requests per minute
+  remaining: number;
+  resetSeconds: number; // until the bucket is full again
+  retryAfterSeconds: number; // until the next request is allowed (0 if now)
+};
+
+/**
+ * Take one request from the API key's bucket and its org's bucket. Reports
+ * the bucket that throttled the request, or else the one with the fewest
+ * requests left. Backend errors are logged and the request is let through
+ * (returns null).
+ */
+export async function checkRateLimit(
+  apiKey: ApiKey
+): Promise<RateLimitResult | null> {
+  const limits = await getRateLimits(apiKey);
+  const scopes: RateLimitScope[] = ["key", "org"];
+  const buckets = scopes.map((scope) => ({
+    id: scope === "key" ? `key:${apiKey.id}` : `org:${apiKey.orgId}`,
+    limitPerMinute: limits[scope],
+  }));
+
+  let taken: Awaited<ReturnType<RateLimitBackend["take"]>>;
+  try {
+    taken = await backend.take(buckets, Date.now());
+  } catch (err) {
+    console.error("[CleanMod] Rate limit backend error:", err);
+    return null;
+  }
+
+  const results = scopes.map((scope, i): RateLimitResult => {
+    const limit = limits[scope];
+    const tokens = taken.states[i].tokens;
+    const msPerToken = MINUTE_IN_MS / limit;
+    return {
+      allowed: taken.allowed,
+      scope,
+      limit,
+      remaining: Math.max(0, Math.floor(tokens)),
+      resetSeconds: Math.ceil(((limit - tokens) * msPerToken) / 1000),
+      retryAfterSeconds:
+        tokens >= 1 ? 0 : Math.ceil(((1 - tokens) * msPerToken) / 1000),
+    };
+  });
+
+  return results.reduce((reported, result) =>
+    taken.allowed
+      ? result.remaining < reported.remaining
+        ? result
+        : reported
+      : result.retryAfterSeconds > reported.retryAfterSeconds
+      ? result
+      : reported
+  );
+}
+
+/**
+ * `X-RateLimit-*` headers for a response (plus `Retry-After` when throttled).
+ */
+export function rateLimitHeaders(
+  result: RateLimitResult
+): Record<string, string> {
+  return {
+    "X-RateLimit-Limit": String(result.limit),
+    "X-RateLimit-Remaining": String(result.remaining),
+    "X-RateLimit-Reset": String(result.resetSeconds),
+    ...(!result.allowed && {
+      "Retry-After": String(Math.max(1, result.retryAfterSeconds)),
+    }),
+  };
+}
@@ -0,0 +1,79 @@
+import type { ModelRollout } from "@prisma/client";
+import { prisma } from "./db";
+import {
+  ROLLOUT_BUCKET_BY,
+  type ModelRolloutConfig,
+  type RolloutArm,
+  type RolloutBucketBy,
+} from "./moderation/rollout";
+import type { ModerationDecision } from "./moderation/types";
+
+/**
+ * Convert a stored row into the moderation core's `ModelRolloutConfig`.
+ */
+export function toModelRolloutConfig(row: ModelRollout): ModelRolloutConfig {
+  return {
+    id: row.id,
+    apiKeyId: row.apiKeyId,
+    fromModel: row.fromModel,
+    toModel: row.toModel,
+    percentage: Math.min(100, Math.max(0, row.percentage)),
+    bucketBy: ROLLOUT_BUCKET_BY.includes(row.bucketBy as RolloutBucketBy)
+      ? (row.bucketBy as RolloutBucketBy)
+      : "input",
+  };
+}
+
+/**
+ * Load the organization's model rollouts (org-wide and per API key).
+ */
+export async function getRollouts(
+  orgId: string
+): Promise<ModelRolloutConfig[]> {
+  const rows = await prisma.modelRollout.findMany({
+    where: { orgId },
+    orderBy: { createdAt: "asc" },
+  });
+  return rows.map(toModelRolloutConfig);
+}
+
+export type ArmStats = {
+  total: number;
+  decisions: Record<ModerationDecision, number>;
+};
+
+/**
+ * Decision counts per arm for each rollout, from the logs that recorded it.
+ */
+export async function getRolloutArmStats(
+  orgId: string,
+  rolloutIds: string[]
+): Promise<Record<string, Record<RolloutArm, ArmStats>>> {
+  const stats: Record<string, Record<RolloutArm, ArmStats>> = {};
+  if (rolloutIds.length === 0) return stats;
+
+  const emptyArm = (): ArmStats => ({
+    total: 0,
+    decisions: { allow: 0, flag: 0, block: 0 },
+  });
+  for (const id of rolloutIds) {
+    stats[id] = { control: emptyArm(), treatment: emptyArm() };
+  }
+
+  const groups = await prisma.moderationLog.groupBy({
+    by: ["rolloutId", "rolloutArm", "decision"],
+    where: { orgId, rolloutId: { in: rolloutIds } },
+    _count: { _all: true },
+  });
+
+  for (const group of groups) {
+    const arm = stats[group.rolloutId ?? ""]?.[group.rolloutArm as RolloutArm];
+    if (!arm) continue;
+    arm.total += group._count._all;
+    if (group.decision in arm.decisions) {
+      arm.decisions[group.decision as ModerationDecision] += group._count._all;
+    }
+  }
+
+  return stats;
+}
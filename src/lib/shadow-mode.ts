@@ -0,0 +1,214 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "./db";
+import { mapWithConcurrency } from "./moderation/concurrency";
+import { normalizeText } from "./moderation/normalize";
+import { policyForSource } from "./moderation/policy";
+import { escalateForRiskTier } from "./moderation/reputation";
+import { MODEL_MAP, moderateText, resolveModelKey } from "./moderation/router";
+import type {
+  ModerationDecision,
+  NormalizedModerationResult,
+} from "./moderation/types";
+import type {
+  ModerationOutcome,
+  OrgModerationSettings,
+} from "./moderation-service";
+
+/**
+ * Shadow mode: run the org's candidate model (`Organization.shadowModel`) on
+ * live traffic after the response has been sent, and store its verdict on the
+ * same `ModerationLog` row. The candidate never affects the response, usage
+ * or the verdict cache.
+ */
+
+// Shadow calls are background work; keep them from competing with requests
+const SHADOW_CONCURRENCY = 2;
+
+const DECISIONS: ModerationDecision[] = ["allow", "flag", "block"];
+
+// Disagreements shown in the dashboard report
+const MAX_DISAGREEMENTS = 20;
+
+export type ShadowRun = {
+  outcome: ModerationOutcome;
+  logId: string;
+};
+
+async function runShadowOne(
+  settings: OrgModerationSettings,
+  shadowModel: string,
+  { outcome, logId }: ShadowRun
+) {
+  // Nothing to compare: same model, or production had no real verdict
+  if (shadowModel === outcome.modelKey || outcome.result.degraded) return;
+
+  try {
+    // Same language rules as a request naming the candidate explicitly
+    resolveModelKey(shadowModel, undefined, outcome.language);
+  } catch {
+    return;
+  }
+
+  const { org, policy, terms } = settings;
+  const sourcePolicy = policyForSource(policy.config, outcome.context.source);
+  let result = await moderateText(outcome.text, shadowModel, {
+    policy: sourcePolicy,
+    terms,
+    normalized: org.normalizeInput ? normalizeText(outcome.text) : null,
+    language: outcome.language,
+  });
+
+  // A fallback provider's verdict says nothing about the candidate
+  if (result.fallback) return;
+
+  // Same end-user escalation as production, so only the model differs
+  if (outcome.riskTier) {
+    result = escalateForRiskTier(result, sourcePolicy, outcome.riskTier);
+  }
+
+  await prisma.moderationLog.update({
+    where: { id: logId },
+    data: {
+      shadowModel,
+      shadowDecision: result.decision,
+      shadowNormalized: result as unknown as Prisma.InputJsonValue,
+    },
+  });
+}
+
+/**
+ * Moderate the logged texts with the org's shadow model, if one is set.
+ * Meant to run after the response (`after()`); failures are only logged.
+ */
+export async function runShadowModeration(
+  settings: OrgModerationSettings,
+  runs: ShadowRun[]
+): Promise<void> {
+  const shadowModel = settings.org.shadowModel;
+  // The configured key may have been removed from MODEL_MAP since, or the
+  // plan downgraded to one without it
+  if (
+    !shadowModel ||
+    !MODEL_MAP[shadowModel] ||
+    !settings.planModels.includes(shadowModel)
+  ) {
+    return;
+  }
+
+  await mapWithConcurrency(runs, SHADOW_CONCURRENCY, async (run) => {
+    try {
+      await runShadowOne(settings, shadowModel, run);
+    } catch (err) {
+      console.error(
+        `[CleanMod] Shadow moderation with "${shadowModel}" failed:`,
+        err instanceof Error ? err.message : err
+      );
+    }
+  });
+}
+
+export type ShadowDisagreement = {
+  id: string;
+  createdAt: Date;
+  decision: string;
+  shadowDecision: string;
+  overallScore: number | null;
+  shadowOverallScore: number | null;
+  inputPreview: string | null;
+};
+
+export type ShadowReport = {
+  total: number;
+  agreed: number;
+  agreementRate: number | null; // null when nothing was shadowed yet
+  // How many texts got each decision in production vs. from the candidate
+  decisionCounts: Record<
+    ModerationDecision,
+    { production: number; shadow: number }
+  >;
+  disagreements: ShadowDisagreement[];
+};
+
+function overallScoreOf(json: Prisma.JsonValue | null): number | null {
+  const score = (json as Partial<NormalizedModerationResult> | null)
+    ?.overall_score;
+  return typeof score === "number" ? score : null;
+}
+
+/**
+ * Compare production verdicts with the candidate's for the org's logs
+ * shadowed by `shadowModel` since `since`.
+ */
+export async function getShadowReport(
+  orgId: string,
+  shadowModel: string,
+  since: Date | null
+): Promise<ShadowReport> {
+  const where: Prisma.ModerationLogWhereInput = {
+    orgId,
+    shadowModel,
+    ...(since && { createdAt: { gte: since } }),
+  };
+
+  const disagreementPairs = DECISIONS.flatMap((decision) =>
+    DECISIONS.filter((shadow) => shadow !== decision).map((shadow) => ({
+      decision,
+      shadowDecision: shadow,
+    }))
+  );
+
+  const [pairs, rows] = await Promise.all([
+    prisma.moderationLog.groupBy({
+      by: ["decision", "shadowDecision"],
+      where,
+      _count: { _all: true },
+    }),
+    prisma.moderationLog.findMany({
+      where: { ...where, OR: disagreementPairs },
+      orderBy: { createdAt: "desc" },
+      take: MAX_DISAGREEMENTS,
+      select: {
+        id: true,
+        createdAt: true,
+        decision: true,
+        shadowDecision: true,
+        normalized: true,
+        shadowNormalized: true,
+        inputPreview: true,
+      },
+    }),
+  ]);
+
+  const decisionCounts = Object.fromEntries(
+    DECISIONS.map((decision) => [decision, { production: 0, shadow: 0 }])
+  ) as ShadowReport["decisionCounts"];
+
+  let total = 0;
+  let agreed = 0;
+  for (const pair of pairs) {
+    const count = pair._count._all;
+    total += count;
+    if (pair.decision === pair.shadowDecision) agreed += count;
+
+    const production = decisionCounts[pair.decision as ModerationDecision];
+    if (production) production.production += count;
+    const shadow = decisionCounts[pair.shadowDecision as ModerationDecision];
+    if (shadow) shadow.shadow += count;
+  }
+
+  return {
+    total,
+    agreed,
+    agreementRate: total > 0 ? agreed / total : null,
+    decisionCounts,
+    disagreements: rows.map((row) => ({
+      id: row.id,
+      createdAt: row.createdAt,
+      decision: row.decision,
+      shadowDecision: row.shadowDecision ?? "",
+      overallScore: overallScoreOf(row.normalized),
+      shadowOverallScore: overallScoreOf(row.shadowNormalized),
+      inputPreview: row.inputPreview,
+    })),
+  };
+}
@@ -0,0 +1,50 @@
+import type { TermListEntry as TermListEntryRow } from "@prisma/client";
+import { prisma } from "./db";
+import { POLICY_CATEGORIES, type CategoryKey } from "./moderation/policy";
+import {
+  TERM_MATCH_TYPES,
+  type TermListEntry,
+  type TermMatchType,
+} from "./moderation/termLists";
+
+/**
+ * Convert a stored row into the moderation core's `TermListEntry`,
+ * dropping values the core doesn't understand.
+ */
+export function toTermListEntry(row: TermListEntryRow): TermListEntry | null {
+  if (row.list !== "block" && row.list !== "allow") return null;
+  if (!TERM_MATCH_TYPES.includes(row.matchType as TermMatchType)) return null;
+  // An allowlist category the core doesn't know must not widen the entry to
+  // every category (null)
+  const category = row.list === "allow" ? row.category : null;
+  if (
+    category !== null &&
+    !POLICY_CATEGORIES.includes(category as CategoryKey)
+  ) {
+    return null;
+  }
+
+  return {
+    id: row.id,
+    list: row.list,
+    matchType: row.matchType as TermMatchType,
+    pattern: row.pattern,
+    action:
+      row.list === "block" ? (row.action === "block" ? "block" : "flag") : null,
+    category: category as CategoryKey | null,
+  };
+}
+
+/**
+ * Load the organization's blocklist and allowlist entries.
+ */
+export async function getTermLists(orgId: string): Promise<TermListEntry[]> {
+  const rows = await prisma.termListEntry.findMany({
+    where: { orgId },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return rows
+    .map(toTermListEntry)
+    .filter((entry): entry is TermListEntry => entry !== null);
+}
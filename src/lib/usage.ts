@@ -0,0 +1,225 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "./db";
+
+export const DEFAULT_FREE_QUOTA = 5_000;
+export const DEFAULT_FREE_MODELS = ["english-basic"];
+
+/**
+ * Model keys the org's plan includes (the free plan's without an active
+ * subscription).
+ */
+export async function getPlanModels(orgId: string): Promise<string[]> {
+  const activeSub = await prisma.subscription.findFirst({
+    where: { orgId, status: "active" },
+    select: { plan: { select: { modelsAllowed: true } } },
+  });
+  const models = activeSub?.plan?.modelsAllowed;
+
+  return Array.isArray(models)
+    ? models.filter((model): model is string => typeof model === "string")
+    : DEFAULT_FREE_MODELS;
+}
+
+/**
+ * Get the current month [start, end) range for usage aggregation.
+ */
+export function getCurrentMonthRange(now = new Date()) {
+  const start = new Date(now.getFullYear(), now.getMonth(), 1);
+  const end = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+  return { start, end };
+}
+
+/**
+ * Units taken from this month's quota before moderating. `included` units
+ * fit in the plan quota; the rest are `overage` (soft-limit plans only).
+ */
+export type QuotaReservation = {
+  orgId: string;
+  month: Date;
+  now: Date;
+  units: number;
+  included: number;
+  overage: number;
+  quota: number;
+  hardCap: number; // equal to quota unless the plan has a soft limit
+  countCachedHits: boolean; // plan setting: do verdict-cache hits use quota?
+};
+
+export class QuotaExceededError extends Error {
+  constructor(
+    message: string,
+    public details: {
+      quota: number;
+      used: number;
+      requested: number;
+      hard_cap?: number;
+    }
+  ) {
+    super(message);
+    this.name = "QuotaExceededError";
+  }
+}
+
+/**
+ * Reserve `units` of the organization's monthly quota, or throw
+ * QuotaExceededError when they do not fit under the plan's hard cap.
+ *
+ * The check and the increment are one conditional update of the month's
+ * QuotaPeriod row, so concurrent requests cannot overshoot the cap. Settle
+ * the reservation with settleQuota() once the request is logged, or give it
+ * back with releaseQuota() if the request fails.
+ */
+export async function reserveQuota(
+  orgId: string,
+  units: number,
+  now = new Date()
+): Promise<QuotaReservation> {
+  const { start: month } = getCurrentMonthRange(now);
+
+  const activeSub = await prisma.subscription.findFirst({
+    where: {
+      orgId,
+      status: "active",
+    },
+    include: {
+      plan: true,
+    },
+  });
+
+  const quota = activeSub?.plan?.monthlyQuota ?? DEFAULT_FREE_QUOTA;
+  const hardCap = Math.max(quota, activeSub?.plan?.monthlyHardCap ?? quota);
+  const reservation = {
+    orgId,
+    month,
+    now,
+    units,
+    quota,
+    hardCap,
+    countCachedHits: activeSub?.plan?.countCachedHits ?? true,
+  };
+
+  if (units <= 0) {
+    return { ...reservation, units: 0, included: 0, overage: 0 };
+  }
+
+  const where = { orgId_month: { orgId, month } };
+  await prisma.quotaPeriod.upsert({
+    where,
+    create: { orgId, month },
+    update: {},
+  });
+
+  let period;
+  try {
+    period = await prisma.quotaPeriod.update({
+      where: { ...where, used: { lte: hardCap - units } },
+      data: { used: { increment: units } },
+    });
+  } catch (err) {
+    // P2025: the row no longer matches, i.e. the units do not fit
+    if (
+      err instanceof Prisma.PrismaClientKnownRequestError &&
+      err.code === "P2025"
+    ) {
+      const current = await prisma.quotaPeriod.findUnique({ where });
+      throw new QuotaExceededError(
+        hardCap > quota
+          ? "Monthly usage cap reached. Upgrade your CleanMod plan to continue."
+          : "Monthly quota exceeded. Upgrade your CleanMod plan to continue.",
+        {
+          quota,
+          used: current?.used ?? 0,
+          requested: units,
+          ...(hardCap > quota && { hard_cap: hardCap }),
+        }
+      );
+    }
+    throw err;
+  }
+
+  // Units below the quota come first; the increment returns the row after
+  // this reservation, so concurrent reservations never share a unit
+  const usedBefore = period.used - units;
+  const included = Math.min(units, Math.max(0, quota - usedBefore));
+
+  return { ...reservation, included, overage: units - included };
+}
+
+/**
+ * Which charged items were served as overage: charged items past the
+ * reservation's included units, in order.
+ */
+export function overageFlags(
+  reservation: QuotaReservation,
+  charged: boolean[]
+): boolean[] {
+  let count = 0;
+  return charged.map(
+    (isCharged) => isCharged && ++count > reservation.included
+  );
+}
+
+/**
+ * Record `charged` units (of those reserved) in today's usage counter and
+ * give the rest back. Pass the transaction that writes the logs so usage and
+ * logs are stored together.
+ */
+export async function settleQuota(
+  reservation: QuotaReservation,
+  charged: number,
+  db: Prisma.TransactionClient = prisma
+): Promise<void> {
+  const unused = reservation.units - charged;
+  if (unused > 0) {
+    await db.quotaPeriod.update({
+      where: {
+        orgId_month: { orgId: reservation.orgId, month: reservation.month },
+      },
+      data: { used: { decrement: unused } },
+    });
+  }
+
+  if (charged <= 0) return;
+
+  const { now } = reservation;
+  const day = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const overage = Math.max(0, charged - reservation.included);
+  await db.usageCounter.upsert({
+    where: {
+      orgId_date: {
+        orgId: reservation.orgId,
+        date: day,
+      },
+    },
+    update: {
+      count: { increment: charged },
+      overage: { increment: overage },
+    },
+    create: {
+      orgId: reservation.orgId,
+      date: day,
+      count: charged,
+      overage,
+    },
+  });
+}
+
+/**
+ * Give back every unit of a reservation whose request failed.
+ */
+export async function releaseQuota(
+  reservation: QuotaReservation
+): Promise<void> {
+  if (reservation.units <= 0) return;
+
+  try {
+    await prisma.quotaPeriod.update({
+      where: {
+        orgId_month: { orgId: reservation.orgId, month: reservation.month },
+      },
+      data: { used: { decrement: reservation.units } },
+    });
+  } catch (err) {
+    console.error("[CleanMod] Failed to release quota reservation:", err);
+  }
+}
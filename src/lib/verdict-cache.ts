@@ -0,0 +1,136 @@
+import crypto from "crypto";
+import type { NormalizedModerationResult } from "./moderation/types";
+
+/**
+ * Verdict cache for identical inputs (the same spam pasted 500 times).
+ *
+ * Two tiers: an in-process LRU, and an optional shared backend (e.g. Redis)
+ * registered with `setSharedVerdictCache()` so every instance sees the same
+ * hits. Entries expire after VERDICT_CACHE_TTL_SECONDS (0 disables caching).
+ */
+
+const VERDICT_CACHE_TTL_MS =
+  parseInt(process.env.VERDICT_CACHE_TTL_SECONDS || "300", 10) * 1000;
+
+const VERDICT_CACHE_MAX_ENTRIES = parseInt(
+  process.env.VERDICT_CACHE_MAX_ENTRIES || "5000",
+  10
+);
+
+/**
+ * A shared cache tier. Implementations store values as-is and honor `ttlMs`.
+ */
+export interface VerdictCacheBackend {
+  get(key: string): Promise<NormalizedModerationResult | null>;
+  set(
+    key: string,
+    value: NormalizedModerationResult,
+    ttlMs: number
+  ): Promise<void>;
+}
+
+type LruEntry = { value: NormalizedModerationResult; expiresAt: number };
+
+// Map iteration order is insertion order, so re-inserting on read keeps the
+// least recently used entry first
+const lru = new Map<string, LruEntry>();
+
+let sharedBackend: VerdictCacheBackend | null = null;
+
+export function setSharedVerdictCache(backend: VerdictCacheBackend | null) {
+  sharedBackend = backend;
+}
+
+export function isVerdictCacheEnabled(): boolean {
+  return VERDICT_CACHE_TTL_MS > 0;
+}
+
+export type VerdictCacheKeyParts = {
+  orgId: string;
+  textHash: string; // hash of the raw input text
+  modelKey: string;
+  policyVersion: number | null;
+  // Anything else that changes the verdict for the same text (term lists,
+  // normalization setting)
+  variant: string;
+};
+
+/**
+ * Build the cache key. Verdicts are org-specific: policy and term lists
+ * differ per org, and offsets in the result point into the raw text.
+ */
+export function buildVerdictCacheKey(parts: VerdictCacheKeyParts): string {
+  return crypto
+    .createHash("sha256")
+    .update(
+      [
+        parts.orgId,
+        parts.textHash,
+        parts.modelKey,
+        parts.policyVersion ?? "default",
+        parts.variant,
+      ].join("\n")
+    )
+    .digest("hex");
+}
+
+function setLocal(key: string, value: NormalizedModerationResult) {
+  lru.delete(key);
+  lru.set(key, { value, expiresAt: Date.now() + VERDICT_CACHE_TTL_MS });
+
+  while (lru.size > VERDICT_CACHE_MAX_ENTRIES) {
+    const oldest = lru.keys().next().value;
+    if (oldest === undefined) break;
+    lru.delete(oldest);
+  }
+}
+
+/**
+ * Look up a cached verdict: in-process first, then the shared backend.
+ * Shared-backend errors are logged and treated as a miss.
+ */
+export async function getCachedVerdict(
+  key: string
+): Promise<NormalizedModerationResult | null> {
+  if (!isVerdictCacheEnabled()) return null;
+
+  const entry = lru.get(key);
+  if (entry) {
+    lru.delete(key);
+    if (entry.expiresAt > Date.now()) {
+      lru.set(key, entry);
+      return entry.value;
+    }
+  }
+
+  if (!sharedBackend) return null;
+
+  try {
+    const value = await sharedBackend.get(key);
+    if (value) setLocal(key, value);
+    return value;
+  } catch (err) {
+    console.error("[CleanMod] Verdict cache read error:", err);
+    return null;
+  }
+}
+
+/**
+ * Store a verdict in both tiers.
+ */
+export async function cacheVerdict(
+  key: string,
+  value: NormalizedModerationResult
+): Promise<void> {
+  if (!isVerdictCacheEnabled()) return;
+
+  setLocal(key, value);
+
+  if (!sharedBackend) return;
+
+  try {
+    await sharedBackend.set(key, value, VERDICT_CACHE_TTL_MS);
+  } catch (err) {
+    console.error("[CleanMod] Verdict cache write error:", err);
+  }
+}